@@ -1,26 +1,104 @@
-import { Notice, TFile } from 'obsidian';
+import { getAllTags, normalizePath, Notice, requestUrl, TFile } from 'obsidian';
 import WordpressPlugin from './main';
 import {
   WordPressAuthParams,
+  WordPressBatchPublishItem,
+  WordPressBatchPublishStatus,
   WordPressClient,
   WordPressClientResult,
   WordPressClientReturnCode,
+  WordPressImportResult,
   WordPressMediaUploadResult,
+  WordPressPost,
   WordPressPostParams,
-  WordPressPublishResult
+  WordPressPostsQuery,
+  WordPressPublishResult,
+  WordPressRevision
 } from './wp-client';
 import { WpPublishModal } from './wp-publish-modal';
-import { PostType, PostTypeConst, Term } from './wp-api';
+import { getDefaultPostTypeInfo, PingStatus, PostStatus, PostType, PostTypeConst, PostTypeInfo, TaxonomyInfo, Term } from './wp-api';
 import { ERROR_NOTICE_TIMEOUT, WP_DEFAULT_PROFILE_NAME } from './consts';
-import { isPromiseFulfilledResult, isValidUrl, openWithBrowser, processFile, SafeAny, showError, } from './utils';
+import {
+  getProfileSettings,
+  hashContent,
+  isPromiseFulfilledResult,
+  isRetryableError,
+  isValidUrl,
+  openWithBrowser,
+  processFile,
+  SafeAny,
+  setupMarkdownParser,
+  showError,
+} from './utils';
 import { WpProfile } from './wp-profile';
 import { AppState } from './app-state';
 import { ConfirmCode, openConfirmModal } from './confirm-modal';
 import fileTypeChecker from 'file-type-checker';
-import { MatterData, Media } from './types';
+import { MatterData, Media, PublishedSite } from './types';
 import { openPostPublishedModal } from './post-published-modal';
 import { openLoginModal } from './wp-login-modal';
-import { isFunction } from 'lodash-es';
+import { castArray, isEqual, isFunction, isNil, isEmpty, isPlainObject, mapValues, sortBy, uniq } from 'lodash-es';
+import { htmlToMarkdown } from './html-to-markdown';
+import { openImportModal } from './wp-import-modal';
+import { ConflictCode, openConflictModal } from './conflict-modal';
+import { openDiffModal } from './wp-diff-modal';
+import { openRevisionsModal, RevisionAction } from './wp-revisions-modal';
+import { getMappedTaxonomies } from './taxonomy-mapping';
+import { MarkdownItLinkPluginInstance } from './markdown-it-link-plugin';
+import { embedNotes } from './note-embeds';
+import { LinkedNotesPublishMode, UnpublishedLinkFallback } from './plugin-settings';
+
+const IMPORT_PAGE_SIZE = 50;
+
+/**
+ * Post IDs are saved as numbers in front-matter if possible.
+ */
+function toMatterPostId(postId: string | number): string | number {
+  const id = Number(postId);
+  return isNaN(id) ? postId : id;
+}
+
+function splitCategoryPath(path: string): string[] {
+  return path.split('/')
+    .map(it => it.trim())
+    .filter(it => it.length > 0);
+}
+
+function isSameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function getParentId(category: Term): string {
+  return String(category.parent ?? '0');
+}
+
+/**
+ * Find category by name, or by path like `Tech/JavaScript` whose parents should match too.
+ */
+function findCategoryByPath(categories: Term[], path: string): Term | undefined {
+  const names = splitCategoryPath(path);
+  if (names.length <= 1) {
+    return categories.find(it => isSameName(it.name, path.trim()));
+  }
+  let category: Term | undefined;
+  for (const name of names) {
+    const parentId = category ? String(category.id) : '0';
+    category = categories.find(it => isSameName(it.name, name) && getParentId(it) === parentId);
+    if (!category) {
+      return undefined;
+    }
+  }
+  return category;
+}
+
+/**
+ * Remote post state saved as `wp_modified` and `wp_hash` in front-matter,
+ * used to detect remote changes since last publishing.
+ */
+interface RemotePostState {
+  modified?: string;
+  hash: string;
+}
 
 export abstract class AbstractWordPressClient implements WordPressClient {
 
@@ -32,6 +110,26 @@ export abstract class AbstractWordPressClient implements WordPressClient {
   // Publish lock to prevent multiple simultaneous publishes
   private static publishInProgress = false;
 
+  /**
+   * Taxonomies are fetched once for each client, which is created for each operation.
+   */
+  private taxonomies: Promise<TaxonomyInfo[]> | undefined;
+
+  /**
+   * Post types are fetched once for each client, which is created for each operation.
+   */
+  private postTypes: Promise<PostTypeInfo[]> | undefined;
+
+  /**
+   * Notes being published or tried as linked notes, to avoid publishing circular links repeatedly.
+   */
+  private readonly linkedNotesPublishing = new Set<string>();
+
+  /**
+   * URLs of linked notes published by this client, whose front-matter might not be parsed yet.
+   */
+  private readonly linkedNoteUrls = new Map<string, string>();
+
   protected constructor(
     protected readonly plugin: WordpressPlugin,
     protected readonly profile: WpProfile
@@ -48,9 +146,22 @@ export abstract class AbstractWordPressClient implements WordPressClient {
     certificate: WordPressAuthParams
   ): Promise<Term[]>;
 
+  /**
+   * Create a category.
+   *
+   * @param name category name
+   * @param parentId ID of parent category, the category is top level if not assigned
+   * @param certificate auth params
+   */
+  abstract newCategory(
+    name: string,
+    parentId: string | undefined,
+    certificate: WordPressAuthParams
+  ): Promise<Term>;
+
   abstract getPostTypes(
     certificate: WordPressAuthParams
-  ): Promise<PostType[]>;
+  ): Promise<PostTypeInfo[]>;
 
   abstract validateUser(
     certificate: WordPressAuthParams
@@ -61,16 +172,99 @@ export abstract class AbstractWordPressClient implements WordPressClient {
     certificate: WordPressAuthParams
   ): Promise<Term>;
 
+  /**
+   * Get tags on server, most used ones first.
+   */
+  abstract getServerTags(
+    certificate: WordPressAuthParams
+  ): Promise<Term[]>;
+
+  abstract getTaxonomies(
+    certificate: WordPressAuthParams
+  ): Promise<TaxonomyInfo[]>;
+
+  /**
+   * Get term of the taxonomy by name, the term will be created if not exists.
+   */
+  abstract getTerm(
+    taxonomy: TaxonomyInfo,
+    name: string,
+    certificate: WordPressAuthParams
+  ): Promise<Term>;
+
   abstract uploadMedia(
     media: Media,
     certificate: WordPressAuthParams
   ): Promise<WordPressClientResult<WordPressMediaUploadResult>>;
 
+  abstract getPost(
+    postId: string,
+    postType: PostType,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<WordPressPost>>;
+
+  abstract getPosts(
+    query: WordPressPostsQuery,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<WordPressPost[]>>;
+
+  abstract getRevisions(
+    postId: string,
+    postType: PostType,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<WordPressRevision[]>>;
+
+  /**
+   * Restore post content and title to the revision on server.
+   */
+  abstract restoreRevision(
+    postId: string,
+    postType: PostType,
+    revision: WordPressRevision,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<boolean>>;
+
+  /**
+   * Move a post to trash.
+   */
+  abstract trashPost(
+    postId: string,
+    postType: PostType,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<boolean>>;
+
+  /**
+   * Restore a trashed post as draft.
+   */
+  abstract restorePost(
+    postId: string,
+    postType: PostType,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<boolean>>;
+
+  /**
+   * Delete a post permanently.
+   *
+   * Some APIs could only delete trashed posts, so the post should be trashed first.
+   */
+  abstract deletePost(
+    postId: string,
+    postType: PostType,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<boolean>>;
+
   protected needLogin(): boolean {
     return true;
   }
 
-  protected async getAuth(): Promise<WordPressAuthParams> {
+  /**
+   * Get auth params of the profile, login modal is shown if saved ones are invalid.
+   *
+   * Errors of network problems are thrown without login modal.
+   *
+   * @param interactive show login modal, otherwise throw error if saved auth params are invalid
+   */
+  protected async getAuth(interactive = true): Promise<WordPressAuthParams> {
     let auth: WordPressAuthParams = {
       username: null,
       password: null
@@ -85,11 +279,17 @@ export abstract class AbstractWordPressClient implements WordPressClient {
           };
           const authResult = await this.validateUser(auth);
           if (authResult.code !== WordPressClientReturnCode.OK) {
+            if (isRetryableError(authResult.response)) {
+              throw authResult.response;
+            }
             throw new Error(this.plugin.i18n.t('error_invalidUser'));
           }
         }
       }
     } catch (error) {
+      if (!interactive || isRetryableError(error)) {
+        throw error;
+      }
       showError(error);
       const result = await openLoginModal(this.plugin, this.profile, async (auth) => {
         const authResult = await this.validateUser(auth);
@@ -107,7 +307,7 @@ export abstract class AbstractWordPressClient implements WordPressClient {
    * - https://example.com/?p=123
    * - https://example.com/post-slug/
    */
-  private async extractPostIdFromUrl(url: string): Promise<number | null> {
+  private async extractPostIdFromUrl(url: string, postType?: PostType): Promise<number | null> {
     try {
       console.log('DEBUG: extractPostIdFromUrl called with:', url);
       const urlObj = new URL(url);
@@ -141,7 +341,7 @@ export abstract class AbstractWordPressClient implements WordPressClient {
       }
       
       // Look up post ID by slug using WordPress API
-      const postId = await this.getPostIdBySlug(slug);
+      const postId = await this.getPostIdBySlug(slug, postType);
       console.log('DEBUG: getPostIdBySlug returned:', postId);
       return postId;
     } catch (error) {
@@ -151,18 +351,36 @@ export abstract class AbstractWordPressClient implements WordPressClient {
   }
 
   /**
-   * Get post ID from slug using WordPress REST API
+   * Get post ID from slug using WordPress API
+   *
+   * @param slug post slug
+   * @param postType search only this post type if known, otherwise all post types
    */
-  private async getPostIdBySlug(slug: string): Promise<number | null> {
+  private async getPostIdBySlug(slug: string, postType?: PostType): Promise<number | null> {
     try {
-      console.log('DEBUG: getPostIdBySlug called with:', slug);
-      // Use WordPress REST API to find post by slug
-      const response = await this.getPostsBySlug(slug);
-      console.log('DEBUG: getPostsBySlug response:', response);
-      if (response && response.length > 0) {
-        const postId = parseInt(response[0].id, 10);
-        console.log('DEBUG: Found post ID:', postId);
-        return postId;
+      console.log('DEBUG: getPostIdBySlug called with:', slug, postType);
+      let postTypes: PostType[] = [ PostTypeConst.Post, PostTypeConst.Page ];
+      if (postType) {
+        postTypes = [ postType ];
+      } else {
+        try {
+          const auth = await this.getAuth();
+          const customTypes = (await this.getPostTypes(auth))
+            .map(it => it.name)
+            .filter(it => !postTypes.includes(it) && it !== 'attachment');
+          postTypes.push(...customTypes);
+        } catch (error) {
+          console.warn('Could not get post types, search posts and pages only:', error);
+        }
+      }
+      for (const type of postTypes) {
+        const response = await this.getPostsBySlug(slug, type);
+        console.log('DEBUG: getPostsBySlug response:', type, response);
+        if (response && response.length > 0) {
+          const postId = parseInt(response[0].id, 10);
+          console.log('DEBUG: Found post ID:', postId);
+          return postId;
+        }
       }
       console.log('DEBUG: No posts found for slug:', slug);
       return null;
@@ -173,9 +391,9 @@ export abstract class AbstractWordPressClient implements WordPressClient {
   }
 
   /**
-   * Get posts by slug using REST API
+   * Get posts of the post type by slug, each item should have an `id`.
    */
-  protected async getPostsBySlug(slug: string): Promise<any[]> {
+  protected async getPostsBySlug(slug: string, postType: PostType): Promise<any[]> {
     // This will be implemented by the specific client (REST or XML-RPC)
     // For now, return empty array - subclasses should override this
     return [];
@@ -191,7 +409,14 @@ export abstract class AbstractWordPressClient implements WordPressClient {
       const missingCategories: string[] = [];
       
       for (const name of categoryNames) {
-        const category = allCategories.find(cat => cat.name.toLowerCase() === name.toLowerCase());
+        let category = findCategoryByPath(allCategories, name);
+        if (!category && this.plugin.settings.createMissingCategories) {
+          try {
+            category = await this.createCategoryPath(name, allCategories, auth);
+          } catch (error) {
+            console.warn(`Could not create category ${name}:`, error);
+          }
+        }
         if (category) {
           categoryIds.push(parseInt(category.id, 10));
         } else {
@@ -215,6 +440,28 @@ export abstract class AbstractWordPressClient implements WordPressClient {
     }
   }
 
+  /**
+   * Create category of the path like `Tech/JavaScript`, missing parents are created too.
+   *
+   * @param path category path separated by `/`
+   * @param categories existing categories, created ones are added into it
+   * @param auth auth params
+   */
+  private async createCategoryPath(path: string, categories: Term[], auth: WordPressAuthParams): Promise<Term | undefined> {
+    let category: Term | undefined;
+    for (const name of splitCategoryPath(path)) {
+      const parentId = category ? String(category.id) : undefined;
+      const existing = categories.find(it => isSameName(it.name, name) && getParentId(it) === (parentId ?? '0'));
+      if (existing) {
+        category = existing;
+      } else {
+        category = await this.newCategory(name, parentId, auth);
+        categories.push(category);
+      }
+    }
+    return category;
+  }
+
   /**
    * Convert category IDs to names for frontmatter storage
    */
@@ -258,6 +505,7 @@ export abstract class AbstractWordPressClient implements WordPressClient {
       if (confirm.code !== ConfirmCode.Cancel) {
         console.log('DEBUG: CLEARING wp_url due to profile change!');
         delete matterData.wp_url;
+        delete matterData.wp_id;
         // Set wp_categories to profile default (could be names or IDs)
         if (this.profile.lastSelectedCategories && this.profile.lastSelectedCategories.length > 0) {
           matterData.wp_categories = this.profile.lastSelectedCategories;
@@ -269,50 +517,129 @@ export abstract class AbstractWordPressClient implements WordPressClient {
   }
 
   private async tryToPublish(params: {
+    file: TFile,
     postParams: WordPressPostParams,
     auth: WordPressAuthParams,
     updateMatterData?: (matter: MatterData) => void,
     originalTagNames?: string[],
+    matterData?: MatterData,
+    /**
+     * Do not show notices or modals after publishing, used in batch publishing.
+     */
+    silent?: boolean,
+    /**
+     * Publishing is retried from publish queue, so it should not be queued again if failed.
+     */
+    queued?: boolean,
+    /**
+     * Record the post in `wp_sites` front-matter.
+     */
+    crossPosting?: boolean,
+    /**
+     * The note is linked to another profile, only `wp_sites` front-matter will be updated.
+     */
+    mirror?: boolean,
   }): Promise<WordPressClientResult<WordPressPublishResult>> {
-    const { postParams, auth, updateMatterData, originalTagNames } = params;
-    
-    console.log('DEBUG: tryToPublish called with postParams:', JSON.stringify(postParams));
-    
-    const tagTerms = await this.getTags(postParams.tags, auth);
-    postParams.tags = tagTerms.map(term => term.id);
-    await this.updatePostImages({
+    const {
+      file,
+      postParams,
       auth,
-      postParams
-    });
-    const html = AppState.markdownParser.render(postParams.content);
+      updateMatterData,
+      originalTagNames,
+      matterData,
+      silent,
+      queued,
+      crossPosting,
+      mirror
+    } = params;
     
-    console.log('DEBUG: About to call this.publish with:');
-    console.log('DEBUG: - title:', postParams.title);
-    console.log('DEBUG: - content length:', postParams.content?.length || 0);
-    console.log('DEBUG: - content preview:', postParams.content?.substring(0, 200));
-    console.log('DEBUG: - html length:', html?.length || 0);
-    console.log('DEBUG: - html preview:', html?.substring(0, 200));
-    console.log('DEBUG: - postParams.postId:', postParams.postId);
-    console.log('DEBUG: - this.name:', this.name);
+    console.log('DEBUG: tryToPublish called with postParams:', JSON.stringify(postParams));
+    // tags are replaced by IDs below, but names are queued
+    const queuedParams = { ...postParams, tags: [ ...postParams.tags ] };
+
+    if (postParams.postId && matterData) {
+      const conflict = await this.checkRemoteConflict(postParams.postId, postParams.postType, matterData, auth, !silent);
+      if (conflict !== ConflictCode.Overwrite) {
+        if (conflict === ConflictCode.Pull) {
+          await this.pullIntoFile(file, postParams.postId, postParams.postType, auth);
+        }
+        return {
+          code: WordPressClientReturnCode.Error,
+          error: {
+            code: WordPressClientReturnCode.Cancelled,
+            message: this.plugin.i18n.t(silent ? 'message_remoteChangedSkipped' : 'message_publishCancelled')
+          }
+        };
+      }
+    }
     
-    const result = await this.publish(
-      postParams.title ?? 'A post from Obsidian!',
-      html,
-      postParams,
-      auth);
+    let result: WordPressClientResult<WordPressPublishResult>;
+    try {
+      const tagTerms = await this.getTags(postParams.tags, auth);
+      postParams.tags = tagTerms.map(term => term.id);
+      postParams.termIds = await this.getTermIds(postParams.terms ?? {}, auth);
+      await this.updatePostImages({
+        file,
+        auth,
+        postParams,
+        // every site of cross-posting uploads images in note, so links of none of them are written back
+        replaceMediaLinks: this.plugin.settings.replaceMediaLinks && !crossPosting
+      });
+      await this.updateFeaturedImage({
+        file,
+        auth,
+        postParams
+      });
+      if (this.plugin.settings.linkedNotesPublishMode !== LinkedNotesPublishMode.Off && !mirror) {
+        await this.publishLinkedNotes(file, postParams.status, silent);
+      }
+      setupMarkdownParser(this.plugin.settings, this.profile);
+      const unpublishedLinks = this.setupLinkResolver(file);
+      // images of embedded notes are uploaded, but not replaced in embedded notes
+      const content = await embedNotes(this.plugin.app, file, postParams.content, embedded => this.uploadImages(embedded, auth));
+      const html = AppState.markdownParser.render(content);
+      if (unpublishedLinks.length > 0 && this.plugin.settings.unpublishedLinkFallback === UnpublishedLinkFallback.Warn && !silent) {
+        new Notice(this.plugin.i18n.t('message_unpublishedLinks', {
+          links: uniq(unpublishedLinks).join(', ')
+        }), ERROR_NOTICE_TIMEOUT);
+      }
+
+      console.log('DEBUG: About to call this.publish with:');
+      console.log('DEBUG: - title:', postParams.title);
+      console.log('DEBUG: - content length:', postParams.content?.length || 0);
+      console.log('DEBUG: - content preview:', postParams.content?.substring(0, 200));
+      console.log('DEBUG: - html length:', html?.length || 0);
+      console.log('DEBUG: - html preview:', html?.substring(0, 200));
+      console.log('DEBUG: - postParams.postId:', postParams.postId);
+      console.log('DEBUG: - this.name:', this.name);
+
+      result = await this.publish(
+        postParams.title ?? 'A post from Obsidian!',
+        html,
+        postParams,
+        auth);
+    } catch (error) {
+      return this.queueOrThrow(error, file, { queued, crossPosting, postParams: queuedParams });
+    }
     if (result.code === WordPressClientReturnCode.Error) {
       throw new Error(this.plugin.i18n.t('error_publishFailed', {
         code: result.error.code as string,
         message: result.error.message
       }));
     } else {
-      new Notice(this.plugin.i18n.t('message_publishSuccessfully'));
+      if (!silent) {
+        new Notice(this.plugin.i18n.t('message_publishSuccessfully'));
+      }
+      const cachedTags = AppState.serverTags.get(this.profile.name);
+      if (cachedTags && originalTagNames) {
+        // tags created by publishing
+        AppState.serverTags.set(this.profile.name, uniq([ ...cachedTags, ...originalTagNames ]));
+      }
       // post id will be returned if creating, true if editing
       const postId = result.data.postId;
-      const file = this.plugin.app.workspace.getActiveFile();
       
       // Always update frontmatter, whether creating or updating
-      if (file) {
+      if (file && !mirror) {
         console.log('DEBUG: Before frontmatter update');
         console.log('DEBUG: postId =', postId);
         console.log('DEBUG: result.data.postUrl =', result.data.postUrl);
@@ -330,7 +657,6 @@ export abstract class AbstractWordPressClient implements WordPressClient {
         // Convert new post categories to names if needed
         if (postParams.categories && postParams.categories.length > 0) {
           try {
-            const auth = await this.getAuth();
             categoryNamesForNewPost = await this.convertCategoryIdsToNames(postParams.categories, auth);
             // Also use this as the update case conversion
             categoryNamesForUpdate = categoryNamesForNewPost;
@@ -339,13 +665,19 @@ export abstract class AbstractWordPressClient implements WordPressClient {
           }
         }
         
+        let remoteState: RemotePostState | undefined;
+        try {
+          remoteState = await this.getRemotePostState(postId, postParams.postType, auth);
+        } catch (error) {
+          console.warn('Could not fetch remote post state:', error);
+        }
+        
         // Check if we need to convert existing categories from IDs to names
         const currentFileData = await processFile(file, this.plugin.app);
         if (currentFileData.matter.wp_categories && Array.isArray(currentFileData.matter.wp_categories) && currentFileData.matter.wp_categories.length > 0) {
           if (typeof currentFileData.matter.wp_categories[0] === 'number') {
             // Convert existing IDs to names
             try {
-              const auth = await this.getAuth();
               categoryNamesForExisting = await this.convertCategoryIdsToNames(currentFileData.matter.wp_categories as number[], auth);
             } catch (error) {
               console.warn('Could not convert existing category IDs to names:', error);
@@ -368,6 +700,10 @@ export abstract class AbstractWordPressClient implements WordPressClient {
           
           // Only update fields that should actually change
           fm.wp_profile = this.profile.name;
+          if (postId) {
+            // post ID is used for updating, URL is kept for reading only
+            fm.wp_id = toMatterPostId(postId);
+          }
           
           // URL preservation logic
           if (preserved.wp_url && postParams.postId) {
@@ -414,8 +750,6 @@ export abstract class AbstractWordPressClient implements WordPressClient {
           // Tags: Always use current tags from postParams for updates
           if (originalTagNames !== undefined && originalTagNames.length >= 0) {
             fm.wp_tags = originalTagNames; // Use original tag names (including empty array for clearing)
-          } else if (postParams.tags !== undefined && postParams.tags.length >= 0) {
-            fm.wp_tags = postParams.tags; // Use current tags (including empty array for clearing)
           } else if (preserved.wp_tags !== undefined) {
             fm.wp_tags = preserved.wp_tags; // Only preserve if no new tags specified
           }
@@ -426,6 +760,10 @@ export abstract class AbstractWordPressClient implements WordPressClient {
             fm.wp_title = postParams.title; // Set for new posts with custom title
           }
           
+          if (remoteState) {
+            this.updateMatterDataFromRemoteState(fm, remoteState);
+          }
+          
           console.log('DEBUG: Preserved values =', JSON.stringify(preserved));
           console.log('DEBUG: Final frontmatter =', JSON.stringify(fm));
           
@@ -457,11 +795,21 @@ export abstract class AbstractWordPressClient implements WordPressClient {
         }, 1000);
       }
 
-      if (postId) {
+      if (crossPosting) {
+        await this.plugin.app.fileManager.processFrontMatter(file, fm => {
+          const sites: Record<string, PublishedSite> = fm.wp_sites ?? {};
+          sites[this.profile.name] = {
+            url: sites[this.profile.name]?.url ?? result.data.postUrl ?? `${this.profile.endpoint}/?p=${postId}`,
+            id: String(postId)
+          };
+          fm.wp_sites = sites;
+        });
+      }
+
+      if (postId && !mirror) {
         if (this.plugin.settings.rememberLastSelectedCategories) {
           // Save category names instead of IDs
           try {
-            const auth = await this.getAuth();
             const categoryIds = (result.data as SafeAny).categories as number[];
             this.profile.lastSelectedCategories = await this.convertCategoryIdsToNames(categoryIds, auth);
           } catch (error) {
@@ -472,7 +820,7 @@ export abstract class AbstractWordPressClient implements WordPressClient {
           await this.plugin.saveSettings();
         }
 
-        if (this.plugin.settings.showWordPressEditConfirm) {
+        if (this.plugin.settings.showWordPressEditConfirm && !silent) {
           openPostPublishedModal(this.plugin)
             .then(() => {
               openWithBrowser(`${this.profile.endpoint}/wp-admin/post.php`, {
@@ -486,65 +834,251 @@ export abstract class AbstractWordPressClient implements WordPressClient {
     return result;
   }
 
+  /**
+   * Queue publishing failed by network problems to be retried later, other errors are thrown as is.
+   */
+  private async queueOrThrow(
+    error: unknown,
+    file: TFile,
+    options: {
+      queued?: boolean,
+      crossPosting?: boolean,
+      postParams?: WordPressPostParams,
+    }
+  ): Promise<never> {
+    if (!options.queued && isRetryableError(error)) {
+      await this.plugin.publishQueue.enqueue({
+        profileName: this.profile.name,
+        file,
+        crossPosting: options.crossPosting,
+        postParams: options.postParams,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw new Error(this.plugin.i18n.t('message_publishQueued'));
+    }
+    throw error;
+  }
+
+  /**
+   * Resolve links in the note to posts of linked notes published by this profile.
+   *
+   * @return paths of linked notes not published yet, collected while rendering
+   */
+  private setupLinkResolver(file: TFile): string[] {
+    const { metadataCache } = this.plugin.app;
+    const unpublishedLinks: string[] = [];
+    MarkdownItLinkPluginInstance.resolveLink(linkpath => {
+      const target = metadataCache.getFirstLinkpathDest(linkpath, file.path);
+      if (!target || target.extension !== 'md') {
+        return undefined;
+      }
+      return {
+        url: this.getPublishedUrl(target)
+      };
+    });
+    MarkdownItLinkPluginInstance.doWithUnpublishedLink(linkpath => {
+      unpublishedLinks.push(linkpath);
+    });
+    return unpublishedLinks;
+  }
+
+  /**
+   * URL of the post of the note published by this profile.
+   */
+  private getPublishedUrl(file: TFile): string | undefined {
+    const url = this.linkedNoteUrls.get(file.path);
+    if (url) {
+      return url;
+    }
+    const matterData: MatterData = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+    // notes published by older versions have no `wp_profile`
+    if ((matterData.wp_profile ?? this.profile.name) === this.profile.name) {
+      return matterData.wp_url;
+    }
+    const site: PublishedSite | undefined = matterData.wp_sites?.[this.profile.name];
+    return site?.url;
+  }
+
+  /**
+   * Publish notes linked by the note but not published yet, so the note could link to their posts.
+   *
+   * Linked notes are published recursively, notes linked circularly are published only once.
+   */
+  private async publishLinkedNotes(file: TFile, status: PostStatus, silent?: boolean): Promise<void> {
+    const { vault, metadataCache } = this.plugin.app;
+    this.linkedNotesPublishing.add(file.path);
+    const linkedStatus = this.plugin.settings.linkedNotesPublishMode === LinkedNotesPublishMode.Draft
+      ? PostStatus.Draft
+      : status;
+    for (const path of Object.keys(metadataCache.resolvedLinks[file.path] ?? {})) {
+      const linked = vault.getAbstractFileByPath(path);
+      if (this.linkedNotesPublishing.has(path)
+        || !(linked instanceof TFile)
+        || linked.extension !== 'md'
+        || this.getPublishedUrl(linked)) {
+        continue;
+      }
+      // notes of other profiles are not moved to this one
+      const profileName = metadataCache.getFileCache(linked)?.frontmatter?.wp_profile;
+      if (profileName && profileName !== this.profile.name) {
+        continue;
+      }
+      this.linkedNotesPublishing.add(path);
+      // linked notes failed are rendered as unpublished links, the note is still published
+      let errorMessage: string | undefined;
+      try {
+        const result = await this.publishFile(linked, { silent: true, status: linkedStatus });
+        if (result?.code === WordPressClientReturnCode.OK) {
+          const { postId, postUrl } = result.data;
+          this.linkedNoteUrls.set(path, postUrl ?? `${this.profile.endpoint}/?p=${postId}`);
+        } else if (result) {
+          errorMessage = result.error.message;
+        }
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : String(error);
+      }
+      if (errorMessage && !silent) {
+        new Notice(this.plugin.i18n.t('error_linkedNotePublishFailed', {
+          path,
+          message: errorMessage
+        }), ERROR_NOTICE_TIMEOUT);
+      }
+    }
+  }
+
   private async updatePostImages(params: {
+    file: TFile,
     postParams: WordPressPostParams,
     auth: WordPressAuthParams,
+    replaceMediaLinks: boolean,
   }): Promise<void> {
-    const { postParams, auth } = params;
+    const { file, postParams, auth, replaceMediaLinks } = params;
 
-    const activeFile = this.plugin.app.workspace.getActiveFile();
-    if (activeFile === null) {
-      throw new Error(this.plugin.i18n.t('error_noActiveFile'));
+    // process images
+    postParams.content = await this.uploadImages(postParams.content, auth);
+    if (replaceMediaLinks) {
+      const { activeEditor } = this.plugin.app.workspace;
+      if (activeEditor && activeEditor.editor && activeEditor.file === file) {
+        console.log('DEBUG: About to call activeEditor.editor.setValue - this might clear frontmatter!');
+        console.log('DEBUG: Current file content before setValue:', await this.plugin.app.vault.read(file));
+        console.log('DEBUG: Content being set:', postParams.content.substring(0, 500));
+        activeEditor.editor.setValue(postParams.content);
+        console.log('DEBUG: Content after setValue:', await this.plugin.app.vault.read(file));
+      } else {
+        // note is not opened, e.g. batch publishing
+        await this.replaceNoteContent(file, postParams.content);
+      }
     }
-    const { activeEditor } = this.plugin.app.workspace;
-    if (activeEditor && activeEditor.editor) {
-      // process images
-      const images = getImages(postParams.content);
-      for (const img of images) {
-        if (!img.srcIsUrl) {
-          img.src = decodeURI(img.src);
-          const fileName = img.src.split("/").pop();
-          if (fileName === undefined) {
-            continue;
-          }
-          const imgFile = this.plugin.app.metadataCache.getFirstLinkpathDest(img.src, fileName);
-          if (imgFile instanceof TFile) {
-            const content = await this.plugin.app.vault.readBinary(imgFile);
-            const fileType = fileTypeChecker.detectFile(content);
-            const result = await this.uploadMedia({
-              mimeType: fileType?.mimeType ?? 'application/octet-stream',
-              fileName: imgFile.name,
-              content: content
-            }, auth);
-            if (result.code === WordPressClientReturnCode.OK) {
-              if(img.width && img.height){
-                  postParams.content = postParams.content.replace(img.original, `![[${result.data.url}|${img.width}x${img.height}]]`);
-              }else if (img.width){
-                  postParams.content = postParams.content.replace(img.original, `![[${result.data.url}|${img.width}]]`);
-              }else{
-                  postParams.content = postParams.content.replace(img.original, `![[${result.data.url}]]`);
-              }
+  }
+
+  /**
+   * Upload images in vault to WordPress, returns content whose image links are replaced by URLs.
+   */
+  private async uploadImages(content: string, auth: WordPressAuthParams): Promise<string> {
+    const images = getImages(content);
+    for (const img of images) {
+      if (!img.srcIsUrl) {
+        img.src = decodeURI(img.src);
+        const fileName = img.src.split("/").pop();
+        if (fileName === undefined) {
+          continue;
+        }
+        const imgFile = this.plugin.app.metadataCache.getFirstLinkpathDest(img.src, fileName);
+        // embedded notes are not media
+        if (imgFile instanceof TFile && imgFile.extension !== 'md') {
+          const binary = await this.plugin.app.vault.readBinary(imgFile);
+          const fileType = fileTypeChecker.detectFile(binary);
+          const result = await this.uploadMedia({
+            mimeType: fileType?.mimeType ?? 'application/octet-stream',
+            fileName: imgFile.name,
+            content: binary
+          }, auth);
+          if (result.code === WordPressClientReturnCode.OK) {
+            if(img.width && img.height){
+                content = content.replace(img.original, `![[${result.data.url}|${img.width}x${img.height}]]`);
+            }else if (img.width){
+                content = content.replace(img.original, `![[${result.data.url}|${img.width}]]`);
+            }else{
+                content = content.replace(img.original, `![[${result.data.url}]]`);
+            }
+          } else {
+            if (result.error.code === WordPressClientReturnCode.ServerInternalError) {
+              new Notice(result.error.message, ERROR_NOTICE_TIMEOUT);
             } else {
-              if (result.error.code === WordPressClientReturnCode.ServerInternalError) {
-                new Notice(result.error.message, ERROR_NOTICE_TIMEOUT);
-              } else {
-                new Notice(this.plugin.i18n.t('error_mediaUploadFailed', {
-                  name: imgFile.name,
-                }), ERROR_NOTICE_TIMEOUT);
-              }
+              new Notice(this.plugin.i18n.t('error_mediaUploadFailed', {
+                name: imgFile.name,
+              }), ERROR_NOTICE_TIMEOUT);
             }
           }
-        } else {
-          // src is a url, skip uploading
         }
+      } else {
+        // src is a url, skip uploading
       }
-      if (this.plugin.settings.replaceMediaLinks) {
-        console.log('DEBUG: About to call activeEditor.editor.setValue - this might clear frontmatter!');
-        console.log('DEBUG: Current file content before setValue:', await this.plugin.app.vault.read(activeFile));
-        console.log('DEBUG: Content being set:', postParams.content.substring(0, 500));
-        activeEditor.editor.setValue(postParams.content);
-        console.log('DEBUG: Content after setValue:', await this.plugin.app.vault.read(activeFile));
+    }
+    return content;
+  }
+
+  /**
+   * Upload featured image from vault or URL, and assign its attachment ID to post.
+   *
+   * Publishing goes on without featured image if it could not be uploaded.
+   */
+  private async updateFeaturedImage(params: {
+    file: TFile,
+    postParams: WordPressPostParams,
+    auth: WordPressAuthParams,
+  }): Promise<void> {
+    const { file, postParams, auth } = params;
+    const source = postParams.featuredImage?.trim();
+    if (!source) {
+      return;
+    }
+
+    let media: Media;
+    if (isValidUrl(source)) {
+      let content: ArrayBuffer;
+      try {
+        content = (await requestUrl({ url: source })).arrayBuffer;
+      } catch (error) {
+        if (isRetryableError(error)) {
+          throw error;
+        }
+        new Notice(this.plugin.i18n.t('error_featuredImageNotFound', {
+          path: source
+        }), ERROR_NOTICE_TIMEOUT);
+        return;
+      }
+      const fileName = decodeURI(new URL(source).pathname.split('/').pop() ?? '');
+      media = {
+        mimeType: fileTypeChecker.detectFile(content)?.mimeType ?? 'application/octet-stream',
+        fileName: fileName.length > 0 ? fileName : 'featured-image',
+        content
+      };
+    } else {
+      // accepts `![[image.png]]`, `[[image.png]]` and `path/to/image.png`
+      const linkPath = source.replace(/^!?\[\[/, '').replace(/(\|.*)?]]$/, '');
+      const imgFile = this.plugin.app.metadataCache.getFirstLinkpathDest(linkPath, file.path);
+      if (!(imgFile instanceof TFile)) {
+        new Notice(this.plugin.i18n.t('error_featuredImageNotFound', {
+          path: source
+        }), ERROR_NOTICE_TIMEOUT);
+        return;
       }
+      const content = await this.plugin.app.vault.readBinary(imgFile);
+      media = {
+        mimeType: fileTypeChecker.detectFile(content)?.mimeType ?? 'application/octet-stream',
+        fileName: imgFile.name,
+        content
+      };
+    }
+
+    const result = await this.uploadMedia(media, auth);
+    if (result.code === WordPressClientReturnCode.OK && result.data.id) {
+      postParams.featuredMediaId = result.data.id;
+    } else {
+      new Notice(this.plugin.i18n.t('error_mediaUploadFailed', {
+        name: media.fileName,
+      }), ERROR_NOTICE_TIMEOUT);
     }
   }
 
@@ -568,165 +1102,7 @@ export abstract class AbstractWordPressClient implements WordPressClient {
         throw new Error(this.plugin.i18n.t('error_noActiveFile'));
       }
 
-      // get auth info
-      const auth = await this.getAuth();
-
-      // read note title, content and matter data
-      const title = file.basename;
-      const { content, matter: matterData } = await processFile(file, this.plugin.app);
-      
-      console.log('DEBUG: Initial matterData after processFile =', JSON.stringify(matterData));
-      
-      // Safety check: If this file previously had WordPress frontmatter but now doesn't,
-      // something went wrong - don't create a new post accidentally
-      const fileContent = await this.plugin.app.vault.read(file);
-      const hasWpFrontmatterText = fileContent.includes('wp_url:') || fileContent.includes('wp_profile:') || 
-                                   fileContent.includes('wp_ptype:') || fileContent.includes('wp_categories:');
-      const hasWpFrontmatterParsed = Object.keys(matterData).some(key => key.startsWith('wp_'));
-      
-      console.log('DEBUG: hasWpFrontmatterText =', hasWpFrontmatterText, 'hasWpFrontmatterParsed =', hasWpFrontmatterParsed);
-      
-      if (hasWpFrontmatterText && !hasWpFrontmatterParsed) {
-        console.log('ERROR: WordPress frontmatter found in file text but not parsed!');
-        console.log('Raw file content (first 500 chars):', fileContent.substring(0, 500));
-        console.log('Parsed matterData:', JSON.stringify(matterData));
-        throw new Error('WordPress frontmatter parsing failed. Please check the YAML syntax in your frontmatter and try again.');
-      }
-      
-      // Additional safety: If no frontmatter was parsed but file has content,
-      // wait a moment and re-read to handle potential race conditions
-      if (!hasWpFrontmatterParsed && file.stat.size > 0) {
-        console.log('DEBUG: No frontmatter parsed, waiting 100ms and re-reading file...');
-        await new Promise(resolve => setTimeout(resolve, 100));
-        
-        const { matter: retryMatterData } = await processFile(file, this.plugin.app);
-        const hasWpFrontmatterRetry = Object.keys(retryMatterData).some(key => key.startsWith('wp_'));
-        
-        if (hasWpFrontmatterRetry) {
-          console.log('DEBUG: Frontmatter found on retry, using retry data');
-          Object.assign(matterData, retryMatterData);
-        } else {
-          console.log('DEBUG: Still no frontmatter on retry, proceeding as new post');
-        }
-      }
-      
-      // check if profile selected is matched to the one in note property,
-      // if not, ask whether to update or not
-      await this.checkExistingProfile(matterData);
-      
-      console.log('DEBUG: matterData after checkExistingProfile =', JSON.stringify(matterData));
-
-      // now we're preparing the publishing data
-      let postParams: WordPressPostParams;
-      let result: WordPressClientResult<WordPressPublishResult> | undefined;
-      
-      // Check if this is an update (wp_url exists) vs new post
-      const hasExistingPost = matterData.wp_url && matterData.wp_url.length > 0;
-      
-      if (defaultPostParams || hasExistingPost) {
-        // Use existing parameters or create default ones for updates
-        let categoriesForAPI: number[] = [1]; // Default fallback
-        
-        // Handle categories from matterData (could be names or IDs)
-        if (matterData.wp_categories && Array.isArray(matterData.wp_categories) && matterData.wp_categories.length > 0) {
-          if (typeof matterData.wp_categories[0] === 'string') {
-            // Convert category names to IDs for API calls
-            categoriesForAPI = await this.convertCategoryNamesToIds(matterData.wp_categories as string[], auth);
-          } else {
-            // Legacy format - categories are already IDs
-            categoriesForAPI = matterData.wp_categories as number[];
-          }
-        } else if (this.profile.lastSelectedCategories && this.profile.lastSelectedCategories.length > 0) {
-          // Handle profile categories (could be names or IDs)
-          if (typeof this.profile.lastSelectedCategories[0] === 'string') {
-            // Convert profile category names to IDs
-            categoriesForAPI = await this.convertCategoryNamesToIds(this.profile.lastSelectedCategories as string[], auth);
-          } else {
-            // Profile categories are IDs
-            categoriesForAPI = this.profile.lastSelectedCategories as number[];
-          }
-        }
-        
-        const baseParams = defaultPostParams || {
-          status: this.plugin.settings.defaultPostStatus,
-          commentStatus: this.plugin.settings.defaultCommentStatus,
-          postType: matterData.wp_ptype ?? PostTypeConst.Post,
-          categories: categoriesForAPI,
-          tags: (matterData.wp_tags as string[]) ?? [],
-          title: '',
-          content: ''
-        };
-        
-        postParams = await this.readFromFrontMatter(title, matterData, baseParams);
-        postParams.content = content;
-        result = await this.tryToPublish({
-          auth,
-          postParams,
-          originalTagNames: (matterData.wp_tags as string[]) ?? []
-        });
-      } else {
-        const categories = await this.getCategories(auth);
-        
-        // Handle selected categories from frontmatter (could be names or IDs)
-        let selectedCategories: number[] = [1]; // Default fallback
-        
-        if (matterData.wp_categories && Array.isArray(matterData.wp_categories) && matterData.wp_categories.length > 0) {
-          if (typeof matterData.wp_categories[0] === 'string') {
-            // Convert category names to IDs for the modal
-            selectedCategories = await this.convertCategoryNamesToIds(matterData.wp_categories as string[], auth);
-          } else {
-            // Legacy format - categories are already IDs
-            selectedCategories = matterData.wp_categories as number[];
-          }
-        } else if (this.profile.lastSelectedCategories && this.profile.lastSelectedCategories.length > 0) {
-          // Handle profile categories (could be names or IDs)
-          if (typeof this.profile.lastSelectedCategories[0] === 'string') {
-            // Convert profile category names to IDs
-            selectedCategories = await this.convertCategoryNamesToIds(this.profile.lastSelectedCategories as string[], auth);
-          } else {
-            // Profile categories are IDs
-            selectedCategories = this.profile.lastSelectedCategories as number[];
-          }
-        }
-        
-        const postTypes = await this.getPostTypes(auth);
-        if (postTypes.length === 0) {
-          postTypes.push(PostTypeConst.Post);
-        }
-        const selectedPostType = matterData.wp_ptype ?? PostTypeConst.Post;
-        result = await new Promise(resolve => {
-          const publishModal = new WpPublishModal(
-            this.plugin,
-            { items: categories, selected: selectedCategories },
-            { items: postTypes, selected: selectedPostType },
-            async (postParams: WordPressPostParams, updateMatterData: (matter: MatterData) => void) => {
-              postParams = await this.readFromFrontMatter(title, matterData, postParams);
-              postParams.content = content;
-              // For modal case, preserve the original tags from frontmatter since modal doesn't handle tags
-              const originalTagsForModal = (matterData.wp_tags as string[]) ?? [];
-              try {
-                const r = await this.tryToPublish({
-                  auth,
-                  postParams,
-                  updateMatterData,
-                  originalTagNames: originalTagsForModal
-                });
-                if (r.code === WordPressClientReturnCode.OK) {
-                  publishModal.close();
-                  resolve(r);
-                }
-              } catch (error) {
-                if (error instanceof Error) {
-                  return showError(error);
-                } else {
-                  throw error;
-                }
-              }
-            },
-            matterData);
-          publishModal.open();
-        });
-      }
+      const result = await this.publishFile(file, { defaultPostParams });
       if (result) {
         console.log('DEBUG: publishPost about to return, checking final file state...');
         const finalFile = this.plugin.app.workspace.getActiveFile();
@@ -749,11 +1125,1029 @@ export abstract class AbstractWordPressClient implements WordPressClient {
       console.log('DEBUG: Publish lock released');
     }
   }
+  /**
+   * Publish a note with front-matter and profile defaults.
+   *
+   * @param file note to be published
+   * @param options.silent publish without modals and notices, used in batch publishing
+   * @param options.queued publishing is retried from publish queue
+   * @param options.crossPosting note is published to several profiles
+   * @param options.linkedProfileName profile the note is linked to in cross-posting, instead of `wp_profile` in cache
+   * @param options.status status overriding front-matter and defaults, used by linked notes
+   */
+  private async publishFile(
+    file: TFile,
+    options: {
+      defaultPostParams?: WordPressPostParams,
+      silent?: boolean,
+      queued?: boolean,
+      crossPosting?: boolean,
+      linkedProfileName?: string,
+      status?: PostStatus,
+    }
+  ): Promise<WordPressClientResult<WordPressPublishResult> | undefined> {
+    const { defaultPostParams, silent, queued, crossPosting, linkedProfileName, status } = options;
 
-  private async getTags(tags: string[], certificate: WordPressAuthParams): Promise<Term[]> {
-    const results = await Promise.allSettled(tags.map(name => this.getTag(name, certificate)));
-    const terms: Term[] = [];
-    results
+    // get auth info, login modal is not shown when retrying from publish queue
+    let auth: WordPressAuthParams;
+    try {
+      auth = await this.getAuth(!queued);
+    } catch (error) {
+      return this.queueOrThrow(error, file, { queued, crossPosting, postParams: defaultPostParams });
+    }
+
+    // read note title, content and matter data
+    const title = file.basename;
+    const { content, matter: matterData } = await processFile(file, this.plugin.app);
+    
+    console.log('DEBUG: Initial matterData after processFile =', JSON.stringify(matterData));
+    
+    // Safety check: If this file previously had WordPress frontmatter but now doesn't,
+    // something went wrong - don't create a new post accidentally
+    const fileContent = await this.plugin.app.vault.read(file);
+    const hasWpFrontmatterText = fileContent.includes('wp_url:') || fileContent.includes('wp_id:') || fileContent.includes('wp_profile:') || 
+                                 fileContent.includes('wp_ptype:') || fileContent.includes('wp_categories:');
+    const hasWpFrontmatterParsed = Object.keys(matterData).some(key => key.startsWith('wp_'));
+    
+    console.log('DEBUG: hasWpFrontmatterText =', hasWpFrontmatterText, 'hasWpFrontmatterParsed =', hasWpFrontmatterParsed);
+    
+    if (hasWpFrontmatterText && !hasWpFrontmatterParsed) {
+      console.log('ERROR: WordPress frontmatter found in file text but not parsed!');
+      console.log('Raw file content (first 500 chars):', fileContent.substring(0, 500));
+      console.log('Parsed matterData:', JSON.stringify(matterData));
+      throw new Error('WordPress frontmatter parsing failed. Please check the YAML syntax in your frontmatter and try again.');
+    }
+    
+    // Additional safety: If no frontmatter was parsed but file has content,
+    // wait a moment and re-read to handle potential race conditions
+    if (!hasWpFrontmatterParsed && file.stat.size > 0) {
+      console.log('DEBUG: No frontmatter parsed, waiting 100ms and re-reading file...');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      
+      const { matter: retryMatterData } = await processFile(file, this.plugin.app);
+      const hasWpFrontmatterRetry = Object.keys(retryMatterData).some(key => key.startsWith('wp_'));
+      
+      if (hasWpFrontmatterRetry) {
+        console.log('DEBUG: Frontmatter found on retry, using retry data');
+        Object.assign(matterData, retryMatterData);
+      } else {
+        console.log('DEBUG: Still no frontmatter on retry, proceeding as new post');
+      }
+    }
+    
+    // check if profile selected is matched to the one in note property,
+    // if not, ask whether to update or not,
+    // batch publishing skips mismatched notes before getting here
+    if (!silent) {
+      await this.checkExistingProfile(matterData);
+    }
+
+    // cross-posted note is linked to the profile it was published first,
+    // posts of other profiles are tracked in `wp_sites` and published as mirrors
+    const linkedProfile = linkedProfileName ?? matterData.wp_profile;
+    const mirror = !!crossPosting && !!linkedProfile && linkedProfile !== this.profile.name;
+    // publishing would take the post out of trash silently
+    if (!mirror && matterData.wp_status === PostStatus.Trash) {
+      throw new Error(this.plugin.i18n.t('error_postInTrash'));
+    }
+    if (mirror) {
+      const site: PublishedSite | undefined = matterData.wp_sites?.[this.profile.name];
+      if (site) {
+        matterData.wp_id = site.id;
+        matterData.wp_url = site.url;
+      } else {
+        delete matterData.wp_id;
+        delete matterData.wp_url;
+      }
+      matterData.wp_profile = this.profile.name;
+      // remote state is only tracked for the linked post
+      delete matterData.wp_modified;
+      delete matterData.wp_hash;
+    }
+    
+    console.log('DEBUG: matterData after checkExistingProfile =', JSON.stringify(matterData));
+
+    // now we're preparing the publishing data
+    let postParams: WordPressPostParams;
+    let result: WordPressClientResult<WordPressPublishResult> | undefined;
+    
+    // Check if this is an update (wp_id or wp_url exists) vs new post
+    const hasExistingPost = !!matterData.wp_id || (matterData.wp_url && matterData.wp_url.length > 0);
+    
+    if (silent || defaultPostParams || hasExistingPost) {
+      // Use existing parameters or create default ones for updates
+      let categoriesForAPI: number[] = [1]; // Default fallback
+      
+      // Handle categories from matterData (could be names or IDs)
+      if (matterData.wp_categories && Array.isArray(matterData.wp_categories) && matterData.wp_categories.length > 0) {
+        if (typeof matterData.wp_categories[0] === 'string') {
+          // Convert category names to IDs for API calls
+          categoriesForAPI = await this.convertCategoryNamesToIds(matterData.wp_categories as string[], auth);
+        } else {
+          // Legacy format - categories are already IDs
+          categoriesForAPI = matterData.wp_categories as number[];
+        }
+      } else if (this.profile.lastSelectedCategories && this.profile.lastSelectedCategories.length > 0) {
+        // Handle profile categories (could be names or IDs)
+        if (typeof this.profile.lastSelectedCategories[0] === 'string') {
+          // Convert profile category names to IDs
+          categoriesForAPI = await this.convertCategoryNamesToIds(this.profile.lastSelectedCategories as string[], auth);
+        } else {
+          // Profile categories are IDs
+          categoriesForAPI = this.profile.lastSelectedCategories as number[];
+        }
+      }
+      
+      const settings = getProfileSettings(this.plugin.settings, this.profile);
+      const baseParams = defaultPostParams || {
+        status: settings.defaultPostStatus,
+        commentStatus: settings.defaultCommentStatus,
+        postType: matterData.wp_ptype ?? PostTypeConst.Post,
+        categories: categoriesForAPI,
+        tags: (matterData.wp_tags as string[]) ?? [],
+        title: '',
+        content: ''
+      };
+      
+      // taxonomy mappings are applied to given parameters already, like in publish modal
+      postParams = await this.readFromFrontMatter(title, matterData, baseParams, auth, defaultPostParams ? undefined : file);
+      postParams.content = content;
+      if (status) {
+        postParams.status = status;
+      }
+      // tags given are written back unless they are just mapped from note tags
+      let originalTagNames: string[] | undefined;
+      if (matterData.wp_tags !== undefined) {
+        originalTagNames = castArray(matterData.wp_tags).map(tag => String(tag));
+      } else if (defaultPostParams) {
+        const mapped = getMappedTaxonomies(this.plugin.app, file, this.profile.taxonomyMappings ?? []);
+        if (!isEqual(sortBy(defaultPostParams.tags), sortBy(mapped.tags))) {
+          originalTagNames = [ ...defaultPostParams.tags ];
+        }
+      }
+      result = await this.tryToPublish({
+        file,
+        auth,
+        postParams,
+        originalTagNames,
+        matterData,
+        silent,
+        queued,
+        crossPosting,
+        mirror
+      });
+    } else {
+      const categories = await this.getCategories(auth);
+      const mapped = getMappedTaxonomies(this.plugin.app, file, this.profile.taxonomyMappings ?? []);
+      
+      // Handle selected categories from frontmatter (could be names or IDs)
+      let selectedCategories: number[] = [1]; // Default fallback
+      
+      if (matterData.wp_categories === undefined && mapped.categories.length > 0) {
+        selectedCategories = await this.convertCategoryNamesToIds(mapped.categories, auth);
+      } else if (matterData.wp_categories && Array.isArray(matterData.wp_categories) && matterData.wp_categories.length > 0) {
+        if (typeof matterData.wp_categories[0] === 'string') {
+          // Convert category names to IDs for the modal
+          selectedCategories = await this.convertCategoryNamesToIds(matterData.wp_categories as string[], auth);
+        } else {
+          // Legacy format - categories are already IDs
+          selectedCategories = matterData.wp_categories as number[];
+        }
+      } else if (this.profile.lastSelectedCategories && this.profile.lastSelectedCategories.length > 0) {
+        // Handle profile categories (could be names or IDs)
+        if (typeof this.profile.lastSelectedCategories[0] === 'string') {
+          // Convert profile category names to IDs
+          selectedCategories = await this.convertCategoryNamesToIds(this.profile.lastSelectedCategories as string[], auth);
+        } else {
+          // Profile categories are IDs
+          selectedCategories = this.profile.lastSelectedCategories as number[];
+        }
+      }
+      
+      const postTypes = await this.getPostTypes(auth);
+      if (postTypes.length === 0) {
+        postTypes.push(getDefaultPostTypeInfo(PostTypeConst.Post));
+      }
+      const selectedPostType = matterData.wp_ptype ?? PostTypeConst.Post;
+      result = await new Promise(resolve => {
+        const publishModal = new WpPublishModal(
+          this.plugin,
+          {
+            items: categories,
+            selected: selectedCategories,
+            create: (name, parentId) => this.newCategory(name, parentId, auth)
+          },
+          { items: postTypes, selected: selectedPostType },
+          {
+            selected: castArray(matterData.wp_tags ?? mapped.tags).map(tag => String(tag)),
+            suggestions: this.getCachedServerTags(auth),
+            noteTags: (getAllTags(this.plugin.app.metadataCache.getFileCache(file) ?? {}) ?? [])
+              .map(tag => tag.replace(/^#/, ''))
+          },
+          async (postParams: WordPressPostParams, updateMatterData: (matter: MatterData) => void) => {
+            // tags chosen in modal are written back to front-matter
+            const tagNames = postParams.tags;
+            postParams = await this.readFromFrontMatter(title, matterData, postParams, auth);
+            postParams.content = content;
+            postParams.tags = tagNames;
+            if (matterData.wp_terms === undefined && !isEmpty(mapped.terms)) {
+              postParams.terms = mapped.terms;
+            }
+            try {
+              const r = await this.tryToPublish({
+                file,
+                auth,
+                postParams,
+                updateMatterData,
+                // tags are written back unless they are just mapped from note tags
+                originalTagNames: matterData.wp_tags === undefined && isEqual(sortBy(tagNames), sortBy(mapped.tags))
+                  ? undefined
+                  : tagNames
+              });
+              if (r.code === WordPressClientReturnCode.OK) {
+                publishModal.close();
+                resolve(r);
+              }
+            } catch (error) {
+              if (error instanceof Error) {
+                return showError(error);
+              } else {
+                throw error;
+              }
+            }
+          },
+          matterData,
+          this.profile);
+        publishModal.open();
+      });
+    }
+    return result;
+  }
+
+  async publishFiles(
+    files: TFile[],
+    options?: {
+      crossPosting?: boolean,
+      linkedProfileName?: string
+    }
+  ): Promise<WordPressClientResult<WordPressBatchPublishItem[]>> {
+    try {
+      if (AbstractWordPressClient.publishInProgress) {
+        throw new Error('A publish operation is already in progress. Please wait for it to complete.');
+      }
+      AbstractWordPressClient.publishInProgress = true;
+
+      if (!this.profile.endpoint || this.profile.endpoint.length === 0) {
+        throw new Error(this.plugin.i18n.t('error_noEndpoint'));
+      }
+
+      const items: WordPressBatchPublishItem[] = [];
+      for (const file of files) {
+        items.push(await this.publishFileOfBatch(file, options?.crossPosting ?? false, options?.linkedProfileName));
+      }
+      return {
+        code: WordPressClientReturnCode.OK,
+        data: items,
+        response: undefined
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        return showError(error);
+      } else {
+        throw error;
+      }
+    } finally {
+      AbstractWordPressClient.publishInProgress = false;
+    }
+  }
+
+  async republish(
+    file: TFile,
+    options?: {
+      crossPosting?: boolean,
+      postParams?: WordPressPostParams
+    }
+  ): Promise<WordPressClientResult<WordPressPublishResult>> {
+    if (AbstractWordPressClient.publishInProgress) {
+      return {
+        code: WordPressClientReturnCode.Error,
+        error: {
+          code: WordPressClientReturnCode.Error,
+          message: 'A publish operation is already in progress. Please wait for it to complete.'
+        },
+        response: undefined
+      };
+    }
+    AbstractWordPressClient.publishInProgress = true;
+    try {
+      const result = await this.publishFile(file, {
+        defaultPostParams: options?.postParams,
+        silent: true,
+        queued: true,
+        crossPosting: options?.crossPosting
+      });
+      if (!result) {
+        throw new Error(this.plugin.i18n.t('message_publishFailed'));
+      }
+      return result;
+    } catch (error) {
+      return {
+        code: WordPressClientReturnCode.Error,
+        error: {
+          code: WordPressClientReturnCode.Error,
+          message: error instanceof Error ? error.message : String(error)
+        },
+        response: error
+      };
+    } finally {
+      AbstractWordPressClient.publishInProgress = false;
+    }
+  }
+
+  private async publishFileOfBatch(
+    file: TFile,
+    crossPosting: boolean,
+    linkedProfileName?: string
+  ): Promise<WordPressBatchPublishItem> {
+    const profileName = this.profile.name;
+    try {
+      const { matter: matterData } = await processFile(file, this.plugin.app);
+      const linkedProfile = linkedProfileName ?? matterData.wp_profile;
+      const linkedToOther = linkedProfile && linkedProfile !== profileName;
+      if (linkedToOther && !crossPosting) {
+        return {
+          file,
+          profileName,
+          status: WordPressBatchPublishStatus.Skipped,
+          message: this.plugin.i18n.t('batchPublish_profileNotMatch', {
+            profileName: linkedProfile
+          })
+        };
+      }
+      const isNew = linkedToOther ? !matterData.wp_sites?.[profileName] : !matterData.wp_id && !matterData.wp_url;
+      const result = await this.publishFile(file, { silent: true, crossPosting, linkedProfileName });
+      if (!result) {
+        throw new Error(this.plugin.i18n.t('message_publishFailed'));
+      }
+      if (result.code === WordPressClientReturnCode.OK) {
+        return {
+          file,
+          profileName,
+          status: isNew ? WordPressBatchPublishStatus.Created : WordPressBatchPublishStatus.Updated,
+          postUrl: result.data.postUrl
+        };
+      }
+      return {
+        file,
+        profileName,
+        status: result.error.code === WordPressClientReturnCode.Cancelled
+          ? WordPressBatchPublishStatus.Skipped
+          : WordPressBatchPublishStatus.Failed,
+        message: result.error.message
+      };
+    } catch (error) {
+      return {
+        file,
+        profileName,
+        status: WordPressBatchPublishStatus.Failed,
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Read the active note which should have been published by `wp_id` or `wp_url` in front-matter.
+   */
+  private async getActiveLinkedNote(): Promise<{ file: TFile, content: string, matterData: MatterData }> {
+    if (!this.profile.endpoint || this.profile.endpoint.length === 0) {
+      throw new Error(this.plugin.i18n.t('error_noEndpoint'));
+    }
+    const file = this.plugin.app.workspace.getActiveFile();
+    if (file === null) {
+      throw new Error(this.plugin.i18n.t('error_noActiveFile'));
+    }
+    const { content, matter: matterData } = await processFile(file, this.plugin.app);
+    if (!matterData.wp_id && !matterData.wp_url) {
+      throw new Error(this.plugin.i18n.t('error_notPublished'));
+    }
+    return { file, content, matterData };
+  }
+
+  private async getLinkedPostId(matterData: MatterData): Promise<string> {
+    const postId = await this.getLinkedPostIdOf(matterData);
+    if (!postId) {
+      throw new Error(this.plugin.i18n.t('error_postNotFound', {
+        url: matterData.wp_url
+      }));
+    }
+    return postId;
+  }
+
+  /**
+   * Post ID of note, `wp_id` is preferred.
+   *
+   * Notes published by older versions have `wp_url` only,
+   * whose post ID is looked up by the URL.
+   */
+  private async getLinkedPostIdOf(matterData: MatterData): Promise<string | undefined> {
+    if (matterData.wp_id) {
+      return String(matterData.wp_id);
+    }
+    if (matterData.wp_url) {
+      const postId = await this.extractPostIdFromUrl(matterData.wp_url, matterData.wp_ptype);
+      if (postId) {
+        return String(postId);
+      }
+    }
+    return undefined;
+  }
+
+  async pullPost(): Promise<WordPressClientResult<WordPressPost>> {
+    try {
+      const { file, matterData } = await this.getActiveLinkedNote();
+
+      const confirm = await openConfirmModal({
+        message: this.plugin.i18n.t('message_pullOverwriteConfirm')
+      }, this.plugin);
+      if (confirm.code === ConfirmCode.Cancel) {
+        return showError(this.plugin.i18n.t('message_pullCancelled'));
+      }
+
+      const auth = await this.getAuth();
+      const postId = await this.getLinkedPostId(matterData);
+      return await this.pullIntoFile(file, postId, matterData.wp_ptype ?? PostTypeConst.Post, auth);
+    } catch (error) {
+      if (error instanceof Error) {
+        return showError(error);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  async comparePost(): Promise<WordPressClientResult<WordPressPost>> {
+    try {
+      const { file, content, matterData } = await this.getActiveLinkedNote();
+      const auth = await this.getAuth();
+      const postId = await this.getLinkedPostId(matterData);
+      const result = await this.getPost(postId, matterData.wp_ptype ?? PostTypeConst.Post, auth);
+      if (result.code === WordPressClientReturnCode.Error) {
+        throw new Error(this.plugin.i18n.t('error_pullFailed', {
+          code: result.error.code as string,
+          message: result.error.message
+        }));
+      }
+      setupMarkdownParser(this.plugin.settings, this.profile);
+      this.setupLinkResolver(file);
+      openDiffModal(this.plugin, {
+        remote: result.data.rawContent ?? result.data.content,
+        local: AppState.markdownParser.render(await embedNotes(this.plugin.app, file, content))
+      })
+        .then(() => {
+          this.publishPost();
+        });
+      return result;
+    } catch (error) {
+      if (error instanceof Error) {
+        return showError(error);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  async browseRevisions(): Promise<WordPressClientResult<WordPressRevision[]>> {
+    try {
+      const { file, matterData } = await this.getActiveLinkedNote();
+      const auth = await this.getAuth();
+      const postId = await this.getLinkedPostId(matterData);
+      const postType = matterData.wp_ptype ?? PostTypeConst.Post;
+      const result = await this.getRevisions(postId, postType, auth);
+      if (result.code === WordPressClientReturnCode.Error) {
+        throw new Error(this.plugin.i18n.t('error_pullFailed', {
+          code: result.error.code as string,
+          message: result.error.message
+        }));
+      }
+      if (result.data.length === 0) {
+        new Notice(this.plugin.i18n.t('message_noRevisions'));
+        return result;
+      }
+      openRevisionsModal(this.plugin, result.data)
+        .then(async ({ action, revision }) => {
+          try {
+            if (action === RevisionAction.Restore) {
+              const restoreResult = await this.restoreRevision(postId, postType, revision, auth);
+              if (restoreResult.code === WordPressClientReturnCode.Error) {
+                throw new Error(this.plugin.i18n.t('error_postOperationFailed', {
+                  code: restoreResult.error.code as string,
+                  message: restoreResult.error.message
+                }));
+              }
+              // server content changed by ourselves, which is not a conflict
+              const remoteState = await this.getRemotePostState(postId, postType, auth);
+              await this.plugin.app.fileManager.processFrontMatter(file, fm => {
+                this.updateMatterDataFromRemoteState(fm, remoteState);
+              });
+              new Notice(this.plugin.i18n.t('message_revisionRestored'));
+            } else {
+              await this.replaceNoteContent(file, htmlToMarkdown(revision.content));
+              await this.plugin.app.fileManager.processFrontMatter(file, fm => {
+                if (revision.title && revision.title !== file.basename) {
+                  fm.wp_title = revision.title;
+                } else {
+                  delete fm.wp_title;
+                }
+              });
+              new Notice(this.plugin.i18n.t('message_pullSuccessfully'));
+            }
+          } catch (error) {
+            showError(error);
+          }
+        });
+      return result;
+    } catch (error) {
+      if (error instanceof Error) {
+        return showError(error);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  async trashCurrentPost(): Promise<WordPressClientResult<boolean>> {
+    try {
+      const { file, matterData } = await this.getActiveLinkedNote();
+      const auth = await this.getAuth();
+      const postId = await this.getLinkedPostId(matterData);
+      const postType = matterData.wp_ptype ?? PostTypeConst.Post;
+      const result = await this.trashPost(postId, postType, auth);
+      if (result.code === WordPressClientReturnCode.Error) {
+        throw new Error(this.plugin.i18n.t('error_postOperationFailed', {
+          code: result.error.code as string,
+          message: result.error.message
+        }));
+      }
+      // trashing by ourselves is not a conflict
+      const remoteState = await this.getRemotePostState(postId, postType, auth);
+      await this.plugin.app.fileManager.processFrontMatter(file, fm => {
+        fm.wp_status = PostStatus.Trash;
+        this.updateMatterDataFromRemoteState(fm, remoteState);
+      });
+      new Notice(this.plugin.i18n.t('message_postTrashed'));
+      return result;
+    } catch (error) {
+      if (error instanceof Error) {
+        return showError(error);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  async restoreCurrentPost(): Promise<WordPressClientResult<boolean>> {
+    try {
+      const { file, matterData } = await this.getActiveLinkedNote();
+      const auth = await this.getAuth();
+      const postId = await this.getLinkedPostId(matterData);
+      const postType = matterData.wp_ptype ?? PostTypeConst.Post;
+      const result = await this.restorePost(postId, postType, auth);
+      if (result.code === WordPressClientReturnCode.Error) {
+        throw new Error(this.plugin.i18n.t('error_postOperationFailed', {
+          code: result.error.code as string,
+          message: result.error.message
+        }));
+      }
+      // restoring by ourselves is not a conflict
+      const remoteState = await this.getRemotePostState(postId, postType, auth);
+      await this.plugin.app.fileManager.processFrontMatter(file, fm => {
+        delete fm.wp_status;
+        this.updateMatterDataFromRemoteState(fm, remoteState);
+      });
+      new Notice(this.plugin.i18n.t('message_postRestored'));
+      return result;
+    } catch (error) {
+      if (error instanceof Error) {
+        return showError(error);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  async deleteCurrentPost(): Promise<WordPressClientResult<boolean>> {
+    try {
+      const { file, matterData } = await this.getActiveLinkedNote();
+
+      const confirm = await openConfirmModal({
+        message: this.plugin.i18n.t('message_deleteConfirm')
+      }, this.plugin);
+      if (confirm.code === ConfirmCode.Cancel) {
+        return showError(this.plugin.i18n.t('message_deleteCancelled'));
+      }
+
+      const auth = await this.getAuth();
+      const postId = await this.getLinkedPostId(matterData);
+      const postType = matterData.wp_ptype ?? PostTypeConst.Post;
+      const post = await this.getPost(postId, postType, auth);
+      if (post.code === WordPressClientReturnCode.OK && post.data.status !== PostStatus.Trash) {
+        // some APIs delete trashed posts only
+        const trashResult = await this.trashPost(postId, postType, auth);
+        if (trashResult.code === WordPressClientReturnCode.Error) {
+          throw new Error(this.plugin.i18n.t('error_postOperationFailed', {
+            code: trashResult.error.code as string,
+            message: trashResult.error.message
+          }));
+        }
+      }
+      const result = await this.deletePost(postId, postType, auth);
+      if (result.code === WordPressClientReturnCode.Error) {
+        throw new Error(this.plugin.i18n.t('error_postOperationFailed', {
+          code: result.error.code as string,
+          message: result.error.message
+        }));
+      }
+      await this.plugin.app.fileManager.processFrontMatter(file, fm => {
+        // keep categories, tags and title, so that the note could be published as a new post again
+        delete fm.wp_id;
+        delete fm.wp_url;
+        delete fm.wp_profile;
+        delete fm.wp_status;
+        delete fm.wp_modified;
+        delete fm.wp_hash;
+      });
+      new Notice(this.plugin.i18n.t('message_postDeleted'));
+      return result;
+    } catch (error) {
+      if (error instanceof Error) {
+        return showError(error);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Fetch a remote post and overwrite the note content and `wp_*` front-matter with it.
+   */
+  protected async pullIntoFile(
+    file: TFile,
+    postId: string,
+    postType: PostType,
+    auth: WordPressAuthParams
+  ): Promise<WordPressClientResult<WordPressPost>> {
+    const result = await this.getPost(postId, postType, auth);
+    if (result.code === WordPressClientReturnCode.Error) {
+      throw new Error(this.plugin.i18n.t('error_pullFailed', {
+        code: result.error.code as string,
+        message: result.error.message
+      }));
+    }
+    const post = result.data;
+    const markdown = htmlToMarkdown(post.content);
+    const categoryNames = post.categories.length > 0
+      ? await this.convertCategoryIdsToNames(post.categories, auth)
+      : undefined;
+    const remoteState = await this.toRemotePostState(post);
+
+    await this.replaceNoteContent(file, markdown);
+    await this.plugin.app.fileManager.processFrontMatter(file, fm => {
+      // keep the linked URL which has been resolved to this post already
+      const wpUrl = fm.wp_url;
+      this.updateMatterDataFromPost(fm, post, file.basename, categoryNames);
+      this.updateMatterDataFromRemoteState(fm, remoteState);
+      if (wpUrl) {
+        fm.wp_url = wpUrl;
+      }
+    });
+    new Notice(this.plugin.i18n.t('message_pullSuccessfully'));
+    return result;
+  }
+
+  /**
+   * Replace note content but front-matter.
+   */
+  private async replaceNoteContent(file: TFile, markdown: string): Promise<void> {
+    await this.plugin.app.vault.process(file, raw => {
+      const frontMatter = raw.match(/^---[\s\S]+?---/);
+      return frontMatter ? `${frontMatter[0]}\n\n${markdown}\n` : `${markdown}\n`;
+    });
+  }
+
+  /**
+   * Write `wp_*` front-matter of a remote post in the same shape as publishing does.
+   */
+  private updateMatterDataFromPost(
+    fm: MatterData,
+    post: WordPressPost,
+    noteTitle: string,
+    categoryNames?: string[]
+  ): void {
+    fm.wp_profile = this.profile.name;
+    fm.wp_id = toMatterPostId(post.postId);
+    // short link is used only if server does not return the permalink
+    fm.wp_url = post.url ?? `${this.profile.endpoint}/?p=${post.postId}`;
+    fm.wp_ptype = post.postType;
+    if (post.postType === PostTypeConst.Post) {
+      if (categoryNames) {
+        fm.wp_categories = categoryNames;
+      }
+      fm.wp_tags = post.tags;
+    }
+    if (post.title && post.title !== noteTitle) {
+      fm.wp_title = post.title;
+    } else {
+      delete fm.wp_title;
+    }
+  }
+
+  private async toRemotePostState(post: WordPressPost): Promise<RemotePostState> {
+    return {
+      modified: post.modified,
+      hash: await hashContent(post.rawContent ?? post.content)
+    };
+  }
+
+  private async getRemotePostState(
+    postId: string,
+    postType: PostType,
+    auth: WordPressAuthParams
+  ): Promise<RemotePostState> {
+    const result = await this.getPost(postId, postType, auth);
+    if (result.code === WordPressClientReturnCode.Error) {
+      throw new Error(result.error.message);
+    }
+    return this.toRemotePostState(result.data);
+  }
+
+  private updateMatterDataFromRemoteState(fm: MatterData, state: RemotePostState): void {
+    if (state.modified) {
+      fm.wp_modified = state.modified;
+    }
+    fm.wp_hash = state.hash;
+  }
+
+  /**
+   * Compare remote post state to the one saved at last publishing.
+   *
+   * Ask user what to do if the post was changed remotely.
+   * Notes published before tracking remote state are not checked.
+   * Throw error if remote post state could not be fetched.
+   */
+  private async checkRemoteConflict(
+    postId: string,
+    postType: PostType,
+    matterData: MatterData,
+    auth: WordPressAuthParams,
+    interactive = true
+  ): Promise<ConflictCode> {
+    if (!matterData.wp_modified && !matterData.wp_hash) {
+      return ConflictCode.Overwrite;
+    }
+    let remoteState: RemotePostState;
+    try {
+      remoteState = await this.getRemotePostState(postId, postType, auth);
+    } catch (error) {
+      // remote changes could not be checked, the post should not be overwritten blindly
+      throw new Error(this.plugin.i18n.t('error_remoteStateFailed', {
+        message: error instanceof Error ? error.message : String(error)
+      }));
+    }
+    const modifiedChanged = matterData.wp_modified && remoteState.modified
+      && matterData.wp_modified !== remoteState.modified;
+    const hashChanged = matterData.wp_hash && matterData.wp_hash !== remoteState.hash;
+    if (modifiedChanged || hashChanged) {
+      if (!interactive) {
+        return ConflictCode.Cancel;
+      }
+      const { code } = await openConflictModal(this.plugin);
+      return code;
+    }
+    return ConflictCode.Overwrite;
+  }
+
+  async importPosts(): Promise<WordPressClientResult<WordPressImportResult>> {
+    try {
+      if (!this.profile.endpoint || this.profile.endpoint.length === 0) {
+        throw new Error(this.plugin.i18n.t('error_noEndpoint'));
+      }
+      const { folder, postTypes } = await openImportModal(this.plugin, this.profile);
+      const auth = await this.getAuth();
+
+      const { vault } = this.plugin.app;
+      if (!vault.getAbstractFileByPath(folder)) {
+        await vault.createFolder(folder);
+      }
+      const linkedPosts = this.getLinkedPosts();
+      const categories = await this.getCategories(auth);
+      const importResult: WordPressImportResult = {
+        imported: 0,
+        skipped: 0,
+        failed: 0
+      };
+      const progress = new Notice(this.plugin.i18n.t('message_importing', {
+        count: '0'
+      }), 0);
+      try {
+        for (const postType of postTypes) {
+          for (let page = 1; ; page++) {
+            const result = await this.getPosts({
+              postType,
+              page,
+              perPage: IMPORT_PAGE_SIZE
+            }, auth);
+            if (result.code === WordPressClientReturnCode.Error) {
+              throw new Error(this.plugin.i18n.t('error_importFailed', {
+                code: result.error.code as string,
+                message: result.error.message
+              }));
+            }
+            for (const post of result.data) {
+              const shortLink = `${this.profile.endpoint}/?p=${post.postId}`;
+              if (linkedPosts.ids.has(post.postId)
+                || linkedPosts.urls.has(shortLink)
+                || (post.url && linkedPosts.urls.has(post.url))) {
+                importResult.skipped++;
+                continue;
+              }
+              try {
+                const categoryNames = post.categories
+                  .map(id => categories.find(cat => parseInt(cat.id, 10) === id)?.name)
+                  .filter((name): name is string => name !== undefined);
+                const file = await vault.create(
+                  this.getImportFilePath(folder, post),
+                  `${htmlToMarkdown(post.content)}\n`
+                );
+                const remoteState = await this.toRemotePostState(post);
+                await this.plugin.app.fileManager.processFrontMatter(file, fm => {
+                  this.updateMatterDataFromPost(fm, post, file.basename, categoryNames);
+                  this.updateMatterDataFromRemoteState(fm, remoteState);
+                });
+                importResult.imported++;
+              } catch (error) {
+                console.error('importPosts', post.postId, error);
+                importResult.failed++;
+              }
+              progress.setMessage(this.plugin.i18n.t('message_importing', {
+                count: String(importResult.imported)
+              }));
+            }
+            if (result.data.length < IMPORT_PAGE_SIZE) {
+              break;
+            }
+          }
+        }
+      } finally {
+        progress.hide();
+      }
+      new Notice(this.plugin.i18n.t('message_importSuccessfully', {
+        imported: String(importResult.imported),
+        skipped: String(importResult.skipped),
+        failed: String(importResult.failed)
+      }));
+      return {
+        code: WordPressClientReturnCode.OK,
+        data: importResult
+      };
+    } catch (error) {
+      if (error instanceof Error) {
+        return showError(error);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Collects `wp_id` and `wp_url` of all notes linked to this profile.
+   */
+  private getLinkedPosts(): { ids: Set<string>, urls: Set<string> } {
+    const { metadataCache, vault } = this.plugin.app;
+    const ids = new Set<string>();
+    const urls = new Set<string>();
+    vault.getMarkdownFiles().forEach(file => {
+      const fm = metadataCache.getFileCache(file)?.frontmatter;
+      if (fm?.wp_profile === this.profile.name) {
+        if (fm.wp_id) {
+          ids.add(String(fm.wp_id));
+        }
+        if (fm.wp_url) {
+          urls.add(fm.wp_url);
+        }
+      }
+    });
+    return { ids, urls };
+  }
+
+  private getImportFilePath(folder: string, post: WordPressPost): string {
+    const name = post.title
+      .replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim() || `Untitled ${post.postId}`;
+    let path = normalizePath(`${folder}/${name}.md`);
+    if (this.plugin.app.vault.getAbstractFileByPath(path)) {
+      path = normalizePath(`${folder}/${name} (${post.postId}).md`);
+    }
+    return path;
+  }
+
+  /**
+   * Tag names on server for autocompletion, empty if tags could not be fetched.
+   */
+  private async getCachedServerTags(certificate: WordPressAuthParams): Promise<string[]> {
+    const cached = AppState.serverTags.get(this.profile.name);
+    if (cached) {
+      return cached;
+    }
+    try {
+      const tagNames = (await this.getServerTags(certificate)).map(it => it.name);
+      AppState.serverTags.set(this.profile.name, tagNames);
+      return tagNames;
+    } catch (error) {
+      console.warn('Could not get tags of server:', error);
+      return [];
+    }
+  }
+
+  protected getCachedTaxonomies(certificate: WordPressAuthParams): Promise<TaxonomyInfo[]> {
+    if (!this.taxonomies) {
+      this.taxonomies = this.getTaxonomies(certificate);
+      this.taxonomies.catch(() => {
+        // fetch again next time
+        this.taxonomies = undefined;
+      });
+    }
+    return this.taxonomies;
+  }
+
+  protected getCachedPostTypes(certificate: WordPressAuthParams): Promise<PostTypeInfo[]> {
+    if (!this.postTypes) {
+      this.postTypes = this.getPostTypes(certificate);
+      this.postTypes.catch(() => {
+        // fetch again next time
+        this.postTypes = undefined;
+      });
+    }
+    return this.postTypes;
+  }
+
+  /**
+   * Post type info returned by server, or WordPress defaults if server does not return it.
+   */
+  protected async getPostTypeInfo(postType: PostType, certificate: WordPressAuthParams): Promise<PostTypeInfo> {
+    try {
+      const postTypeInfo = (await this.getCachedPostTypes(certificate)).find(it => it.name === postType);
+      if (postTypeInfo) {
+        return postTypeInfo;
+      }
+    } catch (error) {
+      console.warn('getPostTypeInfo', error);
+    }
+    return getDefaultPostTypeInfo(postType);
+  }
+
+  /**
+   * Resolve term names of custom taxonomies to IDs, missing terms are created.
+   *
+   * Terms of unknown taxonomies or could not be created are skipped with a notice.
+   */
+  private async getTermIds(
+    terms: Record<string, string[]>,
+    certificate: WordPressAuthParams
+  ): Promise<Record<string, string[]>> {
+    const result: Record<string, string[]> = {};
+    const entries = Object.entries(terms).filter(([ , names ]) => names.length > 0);
+    if (entries.length === 0) {
+      return result;
+    }
+    const taxonomies = await this.getCachedTaxonomies(certificate);
+    for (const [ taxonomyName, names ] of entries) {
+      const taxonomy = taxonomies.find(it => it.name === taxonomyName);
+      if (!taxonomy) {
+        new Notice(this.plugin.i18n.t('error_noSuchTaxonomy', {
+          taxonomy: taxonomyName
+        }), ERROR_NOTICE_TIMEOUT);
+        continue;
+      }
+      const results = await Promise.allSettled(names.map(name => this.getTerm(taxonomy, name, certificate)));
+      const failedNames = names.filter((name, index) => !isPromiseFulfilledResult<Term>(results[index]));
+      if (failedNames.length > 0) {
+        new Notice(this.plugin.i18n.t('error_termsNotSaved', {
+          taxonomy: taxonomyName,
+          terms: failedNames.join(', ')
+        }), ERROR_NOTICE_TIMEOUT);
+      }
+      result[taxonomyName] = results
+        .filter((it): it is PromiseFulfilledResult<Term> => isPromiseFulfilledResult<Term>(it))
+        .map(it => String(it.value.id));
+    }
+    return result;
+  }
+
+  private async getTags(tags: string[], certificate: WordPressAuthParams): Promise<Term[]> {
+    const results = await Promise.allSettled(tags.map(name => this.getTag(name, certificate)));
+    const terms: Term[] = [];
+    results
       .forEach(result => {
         if (isPromiseFulfilledResult<Term>(result)) {
           terms.push(result.value);
@@ -762,32 +2156,69 @@ export abstract class AbstractWordPressClient implements WordPressClient {
     return terms;
   }
 
+  /**
+   * Read post parameters from front-matter.
+   *
+   * @param noteTitle note title
+   * @param matterData front-matter of the note
+   * @param params default post parameters
+   * @param auth auth params
+   * @param file if given, taxonomy mapping rules of profile are applied to the note
+   * without categories, tags or terms in front-matter
+   */
   private async readFromFrontMatter(
     noteTitle: string,
     matterData: MatterData,
-    params: WordPressPostParams
+    params: WordPressPostParams,
+    auth: WordPressAuthParams,
+    file?: TFile
   ): Promise<WordPressPostParams> {
     const postParams = { ...params };
+    const mapped = file
+      ? getMappedTaxonomies(this.plugin.app, file, this.profile.taxonomyMappings ?? [])
+      : undefined;
     postParams.title = noteTitle;
     if (matterData.wp_title) {
       postParams.title = matterData.wp_title;
     }
-    if (matterData.wp_url) {
-      // Convert URL to post ID for API calls (now properly handles slugs)
-      const postId = await this.extractPostIdFromUrl(matterData.wp_url);
-      if (postId) {
-        postParams.postId = String(postId); // Convert number to string as expected by interface
-      }
+    const postId = await this.getLinkedPostIdOf(matterData);
+    if (postId) {
+      postParams.postId = postId;
     }
     postParams.profileName = matterData.wp_profile ?? WP_DEFAULT_PROFILE_NAME;
+    // values chosen in publish modal go first
+    const matterString = (value: SafeAny): string | undefined => isNil(value) ? undefined : String(value);
+    postParams.excerpt = postParams.excerpt ?? matterString(matterData.wp_excerpt);
+    postParams.slug = postParams.slug ?? matterString(matterData.wp_slug);
+    postParams.password = postParams.password ?? matterString(matterData.wp_password);
+    if (postParams.pingStatus === undefined
+      && (matterData.wp_ping_status === PingStatus.Open || matterData.wp_ping_status === PingStatus.Closed)) {
+      postParams.pingStatus = matterData.wp_ping_status;
+    }
+    if (postParams.sticky === undefined && !isNil(matterData.wp_sticky)) {
+      postParams.sticky = matterData.wp_sticky === true || matterData.wp_sticky === 'true';
+    }
+    if (postParams.terms === undefined && isPlainObject(matterData.wp_terms)) {
+      postParams.terms = mapValues(
+        matterData.wp_terms as Record<string, SafeAny>,
+        names => castArray(names ?? []).map(name => String(name))
+      );
+    }
+    if (postParams.terms === undefined && matterData.wp_terms === undefined && mapped && !isEmpty(mapped.terms)) {
+      postParams.terms = mapped.terms;
+    }
+    if (postParams.featuredImage === undefined && matterData.wp_featured_image) {
+      postParams.featuredImage = String(matterData.wp_featured_image);
+    }
     if (matterData.wp_ptype !== undefined) {
       postParams.postType = matterData.wp_ptype;
     } else {
       // if there is no post type in matter-data, assign it as 'post'
       postParams.postType = PostTypeConst.Post;
     }
-    if (postParams.postType === PostTypeConst.Post) {
-      // only 'post' supports categories and tags
+    // categories and tags are rejected by post types without these taxonomies
+    const { taxonomies } = await this.getPostTypeInfo(postParams.postType, auth);
+    if (taxonomies.includes('category')) {
       if (matterData.wp_categories !== undefined) {
         // Check if categories are stored as names (new format) or IDs (legacy format)
         const wpCategories = matterData.wp_categories;
@@ -795,7 +2226,6 @@ export abstract class AbstractWordPressClient implements WordPressClient {
           // Check if first item is a string (name) or number (ID)
           if (typeof wpCategories[0] === 'string') {
             // Convert category names to IDs for API calls
-            const auth = await this.getAuth();
             postParams.categories = await this.convertCategoryNamesToIds(wpCategories as string[], auth);
           } else {
             // Legacy format - categories are already IDs
@@ -806,7 +2236,6 @@ export abstract class AbstractWordPressClient implements WordPressClient {
           if (this.profile.lastSelectedCategories && this.profile.lastSelectedCategories.length > 0) {
             if (typeof this.profile.lastSelectedCategories[0] === 'string') {
               // Convert profile category names to IDs
-              const auth = await this.getAuth();
               postParams.categories = await this.convertCategoryNamesToIds(this.profile.lastSelectedCategories as string[], auth);
             } else {
               // Profile categories are IDs
@@ -816,10 +2245,20 @@ export abstract class AbstractWordPressClient implements WordPressClient {
             postParams.categories = [1];
           }
         }
+      } else if (mapped && mapped.categories.length > 0) {
+        postParams.categories = await this.convertCategoryNamesToIds(mapped.categories, auth);
       }
+    } else {
+      postParams.categories = [];
+    }
+    if (taxonomies.includes('post_tag')) {
       if (matterData.wp_tags !== undefined) {
         postParams.tags = matterData.wp_tags as string[];
+      } else if (mapped && mapped.tags.length > 0) {
+        postParams.tags = mapped.tags;
       }
+    } else {
+      postParams.tags = [];
     }
     return postParams;
   }
@@ -3,6 +3,12 @@ import MarkdownIt from 'markdown-it';
 import { MarkdownItImagePluginInstance } from './markdown-it-image-plugin';
 import { MarkdownItCommentPluginInstance } from './markdown-it-comment-plugin';
 import { MarkdownItMathJax3PluginInstance } from './markdown-it-mathjax3-plugin';
+import { MarkdownItGutenbergPluginInstance } from './markdown-it-gutenberg-plugin';
+import { MarkdownItLinkPluginInstance } from './markdown-it-link-plugin';
+import { MarkdownItCalloutPluginInstance } from './markdown-it-callout-plugin';
+import { MarkdownItFootnotePluginInstance } from './markdown-it-footnote-plugin';
+import { MarkdownItHighlightPluginInstance } from './markdown-it-highlight-plugin';
+import { MarkdownItTaskListPluginInstance } from './markdown-it-task-list-plugin';
 
 class AppStore {
 
@@ -12,6 +18,11 @@ class AppStore {
 
   codeVerifier: string | undefined;
 
+  /**
+   * Tag names on server by profile name, fetched once for tag autocompletion.
+   */
+  serverTags = new Map<string, string[]>();
+
 }
 
 export const AppState = new AppStore();
@@ -19,4 +30,11 @@ export const AppState = new AppStore();
 AppState.markdownParser
   .use(MarkdownItCommentPluginInstance.plugin)
   .use(MarkdownItMathJax3PluginInstance.plugin)
-  .use(MarkdownItImagePluginInstance.plugin);
+  .use(MarkdownItImagePluginInstance.plugin)
+  .use(MarkdownItLinkPluginInstance.plugin)
+  .use(MarkdownItHighlightPluginInstance.plugin)
+  .use(MarkdownItTaskListPluginInstance.plugin)
+  .use(MarkdownItFootnotePluginInstance.plugin)
+  // callouts are converted before blocks wrapped
+  .use(MarkdownItCalloutPluginInstance.plugin)
+  .use(MarkdownItGutenbergPluginInstance.plugin);
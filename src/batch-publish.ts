@@ -0,0 +1,165 @@
+import { Notice, TAbstractFile, TFile, TFolder, Vault } from 'obsidian';
+import WordpressPlugin from './main';
+import { WpProfile } from './wp-profile';
+import { WordPressBatchPublishItem, WordPressBatchPublishStatus, WordPressClientReturnCode } from './wp-client';
+import { getWordPressClient } from './wp-clients';
+import { openProfileChooserModal, openProfilesChooserModal } from './wp-profile-chooser-modal';
+import { openBatchReportModal } from './wp-batch-report-modal';
+import { showError } from './utils';
+
+
+/**
+ * Collect Markdown notes from files and folders, folders are walked recursively.
+ */
+export function collectMarkdownFiles(files: TAbstractFile[]): TFile[] {
+  const result: TFile[] = [];
+  files.forEach(file => {
+    if (file instanceof TFolder) {
+      Vault.recurseChildren(file, child => {
+        if (child instanceof TFile && child.extension === 'md') {
+          result.push(child);
+        }
+      });
+    } else if (file instanceof TFile && file.extension === 'md') {
+      result.push(file);
+    }
+  });
+  // a file could be selected both itself and by its folder
+  return result.filter((file, index) => result.indexOf(file) === index);
+}
+
+/**
+ * Profile used by notes not linked to any profile yet.
+ */
+async function getFallbackProfile(plugin: WordpressPlugin): Promise<WpProfile> {
+  const { profiles } = plugin.settings;
+  const defaultProfile = profiles.find(it => it.isDefault);
+  if (defaultProfile) {
+    return defaultProfile;
+  } else if (profiles.length === 1) {
+    return profiles[0];
+  }
+  return openProfileChooserModal(plugin);
+}
+
+/**
+ * Publish notes without opening them, then show a report of every note.
+ *
+ * Notes are published by the profile in their `wp_profile` front-matter,
+ * or the default profile if they have not been published yet.
+ */
+export async function batchPublish(plugin: WordpressPlugin, files: TAbstractFile[]): Promise<void> {
+  if (plugin.settings.profiles.length === 0) {
+    showError(plugin.i18n.t('error_noProfile'));
+    return;
+  }
+  const notes = collectMarkdownFiles(files);
+  if (notes.length === 0) {
+    showError(plugin.i18n.t('error_noNotesToPublish'));
+    return;
+  }
+
+  const items: WordPressBatchPublishItem[] = [];
+  const groups = new Map<WpProfile, TFile[]>();
+  let fallbackProfile: WpProfile | undefined;
+  for (const note of notes) {
+    const profileName = plugin.app.metadataCache.getFileCache(note)?.frontmatter?.wp_profile;
+    let profile: WpProfile | undefined;
+    if (profileName) {
+      profile = plugin.settings.profiles.find(it => it.name === profileName);
+      if (!profile) {
+        items.push({
+          file: note,
+          profileName,
+          status: WordPressBatchPublishStatus.Skipped,
+          message: plugin.i18n.t('error_noSuchProfile', { profileName })
+        });
+        continue;
+      }
+    } else {
+      if (!fallbackProfile) {
+        fallbackProfile = await getFallbackProfile(plugin);
+      }
+      profile = fallbackProfile;
+    }
+    groups.set(profile, [ ...(groups.get(profile) ?? []), note ]);
+  }
+
+  const notice = new Notice(plugin.i18n.t('message_batchPublishing', {
+    count: String(notes.length)
+  }), 0);
+  try {
+    for (const [ profile, profileNotes ] of groups) {
+      items.push(...await publishFilesByProfile(plugin, profile, profileNotes));
+    }
+  } finally {
+    notice.hide();
+  }
+  await openBatchReportModal(plugin, items);
+}
+
+/**
+ * Publish one note to several profiles, then show a report of every profile.
+ *
+ * The note is linked to the first profile published, posts of other profiles
+ * are tracked in `wp_sites` front-matter.
+ */
+export async function crossPublish(plugin: WordpressPlugin, file: TFile): Promise<void> {
+  const { profiles } = plugin.settings;
+  if (profiles.length === 0) {
+    showError(plugin.i18n.t('error_noProfile'));
+    return;
+  }
+  const matterData = plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+  const publishedProfiles = [ matterData.wp_profile, ...Object.keys(matterData.wp_sites ?? {}) ];
+  const selected = await openProfilesChooserModal(plugin, profiles.filter(it => publishedProfiles.includes(it.name)));
+  // linked profile goes first, so the note will not be linked to a mirror site
+  selected.sort((a, b) => Number(b.name === matterData.wp_profile) - Number(a.name === matterData.wp_profile));
+
+  // metadata cache might not be updated yet after the first profile published,
+  // so the linked profile is given to others
+  let linkedProfileName: string | undefined = matterData.wp_profile;
+  const items: WordPressBatchPublishItem[] = [];
+  const notice = new Notice(plugin.i18n.t('message_crossPublishing', {
+    count: String(selected.length)
+  }), 0);
+  try {
+    for (const profile of selected) {
+      const profileItems = await publishFilesByProfile(plugin, profile, [ file ], true, linkedProfileName);
+      items.push(...profileItems);
+      if (!linkedProfileName && profileItems.some(it => it.status === WordPressBatchPublishStatus.Created
+        || it.status === WordPressBatchPublishStatus.Updated)) {
+        linkedProfileName = profile.name;
+      }
+    }
+  } finally {
+    notice.hide();
+  }
+  await openBatchReportModal(plugin, items);
+}
+
+async function publishFilesByProfile(
+  plugin: WordpressPlugin,
+  profile: WpProfile,
+  files: TFile[],
+  crossPosting = false,
+  linkedProfileName?: string
+): Promise<WordPressBatchPublishItem[]> {
+  const failAll = (message: string): WordPressBatchPublishItem[] => {
+    return files.map(file => ({
+      file,
+      profileName: profile.name,
+      status: WordPressBatchPublishStatus.Failed,
+      message
+    }));
+  };
+  const client = getWordPressClient(plugin, profile);
+  if (!client) {
+    return failAll(plugin.i18n.t('error_noEndpoint'));
+  }
+  const result = await client.publishFiles(files, { crossPosting, linkedProfileName });
+  if (result.code === WordPressClientReturnCode.OK) {
+    return result.data;
+  }
+  return failAll(result.error.message);
+}
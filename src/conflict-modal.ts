@@ -0,0 +1,90 @@
+import { Modal, Setting } from 'obsidian';
+import WordpressPlugin from './main';
+import { TranslateKey } from './i18n';
+
+
+export enum ConflictCode {
+  Cancel,
+  Overwrite,
+  Pull
+}
+
+export function openConflictModal(
+  plugin: WordpressPlugin
+): Promise<{ code: ConflictCode }> {
+  return new Promise((resolve, reject) => {
+    const modal = new ConflictModal(
+      plugin,
+      (code, modal) => {
+        resolve({
+          code
+        });
+        modal.close();
+      });
+    modal.open();
+  });
+}
+
+/**
+ * Modal shown when the post was modified remotely since last publishing.
+ */
+class ConflictModal extends Modal {
+
+  private resolved = false;
+
+  constructor(
+    private readonly plugin: WordpressPlugin,
+    private readonly onAction: (code: ConflictCode, modal: Modal) => void
+  ) {
+    super(plugin.app);
+  }
+
+  onOpen() {
+    const t = (key: TranslateKey, vars?: Record<string, string>): string => {
+      return this.plugin.i18n.t(key, vars);
+    };
+    const action = (code: ConflictCode) => {
+      this.resolved = true;
+      this.onAction(code, this);
+    };
+
+    const { contentEl } = this;
+
+    contentEl.createEl('h1', { text: t('conflictModal_title') });
+
+    new Setting(contentEl)
+      .setName(t('conflictModal_message'));
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText(t('conflictModal_cancel'))
+        .onClick(() => {
+          action(ConflictCode.Cancel);
+        })
+      )
+      .addButton(button => button
+        .setButtonText(t('conflictModal_pull'))
+        .onClick(() => {
+          action(ConflictCode.Pull);
+        })
+      )
+      .addButton(button => button
+        .setButtonText(t('conflictModal_overwrite'))
+        .setWarning()
+        .onClick(() => {
+          action(ConflictCode.Overwrite);
+        })
+      );
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+    if (!this.resolved) {
+      // closed by Esc or clicking outside
+      this.resolved = true;
+      this.onAction(ConflictCode.Cancel, this);
+    }
+  }
+
+}
@@ -0,0 +1,42 @@
+import { FuzzySuggestModal, TFolder } from 'obsidian';
+import WordpressPlugin from './main';
+
+
+export function openFolderSuggestModal(
+  plugin: WordpressPlugin
+): Promise<TFolder> {
+  return new Promise((resolve, reject) => {
+    const modal = new FolderSuggestModal(plugin, (folder) => {
+      resolve(folder);
+    });
+    modal.open();
+  });
+}
+
+/**
+ * Vault folders chooser modal.
+ */
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+
+  constructor(
+    private readonly plugin: WordpressPlugin,
+    private readonly onChoose: (folder: TFolder) => void
+  ) {
+    super(plugin.app);
+    this.setPlaceholder(plugin.i18n.t('folderSuggestModal_placeholder'));
+  }
+
+  getItems(): TFolder[] {
+    return this.plugin.app.vault.getAllLoadedFiles()
+      .filter((file): file is TFolder => file instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onChoose(folder);
+  }
+
+}
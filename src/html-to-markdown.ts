@@ -0,0 +1,47 @@
+import TurndownService from 'turndown';
+
+const BLOCK_TAG_REGEX = /^<(p|div|h[1-6]|ul|ol|li|blockquote|pre|table|figure|hr|img|!--)[\s>/]/i;
+
+const turndownService = new TurndownService({
+  headingStyle: 'atx',
+  hr: '---',
+  bulletListMarker: '-',
+  codeBlockStyle: 'fenced',
+  emDelimiter: '*',
+});
+
+// strikethrough is not handled by turndown's CommonMark rules
+turndownService.addRule('strikethrough', {
+  filter: [ 'del', 's' ],
+  replacement: content => `~~${content}~~`
+});
+
+/**
+ * Wrap plain text blocks into paragraphs like WordPress `wpautop` does.
+ *
+ * Raw post content (from XML-RPC or REST `context=edit`) separates paragraphs
+ * with blank lines only, which would be collapsed by HTML to Markdown conversion.
+ *
+ * @param html raw post content
+ */
+function autop(html: string): string {
+  if (/<p[\s>]/i.test(html)) {
+    // already has paragraphs, rendered content or block editor markup
+    return html;
+  }
+  return html
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(block => block.length > 0)
+    .map(block => BLOCK_TAG_REGEX.test(block) ? block : `<p>${block.replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+}
+
+/**
+ * Convert WordPress post content to Markdown.
+ *
+ * @param html post content, either rendered or raw
+ */
+export function htmlToMarkdown(html: string): string {
+  return turndownService.turndown(autop(html)).trim();
+}
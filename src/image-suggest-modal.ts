@@ -0,0 +1,44 @@
+import { FuzzySuggestModal, TFile } from 'obsidian';
+import WordpressPlugin from './main';
+
+
+const IMAGE_EXTENSIONS = [ 'png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'bmp', 'avif' ];
+
+export function openImageSuggestModal(
+  plugin: WordpressPlugin
+): Promise<TFile> {
+  return new Promise((resolve, reject) => {
+    const modal = new ImageSuggestModal(plugin, (image) => {
+      resolve(image);
+    });
+    modal.open();
+  });
+}
+
+/**
+ * Vault images chooser modal.
+ */
+class ImageSuggestModal extends FuzzySuggestModal<TFile> {
+
+  constructor(
+    private readonly plugin: WordpressPlugin,
+    private readonly onChoose: (image: TFile) => void
+  ) {
+    super(plugin.app);
+    this.setPlaceholder(plugin.i18n.t('imageSuggestModal_placeholder'));
+  }
+
+  getItems(): TFile[] {
+    return this.plugin.app.vault.getFiles()
+      .filter(file => IMAGE_EXTENSIONS.includes(file.extension.toLowerCase()));
+  }
+
+  getItemText(image: TFile): string {
+    return image.path;
+  }
+
+  onChooseItem(image: TFile): void {
+    this.onChoose(image);
+  }
+
+}
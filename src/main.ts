@@ -1,4 +1,4 @@
-import { Plugin } from 'obsidian';
+import { Menu, Plugin, TAbstractFile, TFolder } from 'obsidian';
 import { WordpressSettingTab } from './settings';
 import { addIcons } from './icons';
 import { WordPressPostParams } from './wp-client';
@@ -10,8 +10,13 @@ import { openProfileChooserModal } from './wp-profile-chooser-modal';
 import { AppState } from './app-state';
 import { DEFAULT_SETTINGS, SettingsVersion, upgradeSettings, WordpressPluginSettings } from './plugin-settings';
 import { PassCrypto } from './pass-crypto';
-import { doClientPublish, setupMarkdownParser, showError } from './utils';
+import { doClientAction, doClientPublish, getProfileSettings, setupMarkdownParser, showError } from './utils';
 import { cloneDeep } from 'lodash-es';
+import { WpProfile } from './wp-profile';
+import { batchPublish, crossPublish } from './batch-publish';
+import { openFolderSuggestModal } from './folder-suggest-modal';
+import { PublishQueue } from './publish-queue';
+import { openPublishQueueModal } from './wp-publish-queue-modal';
 
 export default class WordpressPlugin extends Plugin {
 
@@ -27,6 +32,12 @@ export default class WordpressPlugin extends Plugin {
     return this.#i18n!;
   }
 
+  #publishQueue: PublishQueue | undefined;
+  get publishQueue() {
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    return this.#publishQueue!;
+  }
+
   private ribbonWpIcon: HTMLElement | null = null;
 
   async onload() {
@@ -38,6 +49,9 @@ export default class WordpressPlugin extends Plugin {
 
     setupMarkdownParser(this.settings);
 
+    this.#publishQueue = new PublishQueue(this);
+    this.#publishQueue.start();
+
     addIcons();
 
     this.registerProtocolHandler();
@@ -62,9 +76,10 @@ export default class WordpressPlugin extends Plugin {
             }
           }
           
+          const settings = getProfileSettings(this.settings, defaultProfile);
           const params: WordPressPostParams = {
-            status: this.#settings?.defaultPostStatus ?? PostStatus.Draft,
-            commentStatus: this.#settings?.defaultCommentStatus ?? CommentStatus.Open,
+            status: settings.defaultPostStatus ?? PostStatus.Draft,
+            commentStatus: settings.defaultCommentStatus ?? CommentStatus.Open,
             categories: categories,
             postType: PostTypeConst.Post,
             tags: [],
@@ -86,10 +101,97 @@ export default class WordpressPlugin extends Plugin {
       }
     });
 
+    this.addCommand({
+      id: 'crossPublish',
+      name: this.#i18n.t('command_crossPublish'),
+      editorCallback: (editor, ctx) => {
+        if (ctx.file) {
+          crossPublish(this, ctx.file).then();
+        } else {
+          showError(this.i18n.t('error_noActiveFile'));
+        }
+      }
+    });
+
+    this.addCommand({
+      id: 'pull',
+      name: this.#i18n.t('command_pull'),
+      editorCallback: () => {
+        this.doWithActiveNoteProfile(profile => doClientAction(this, profile, client => client.pullPost()));
+      }
+    });
+
+    this.addCommand({
+      id: 'compare',
+      name: this.#i18n.t('command_compare'),
+      editorCallback: () => {
+        this.doWithActiveNoteProfile(profile => doClientAction(this, profile, client => client.comparePost()));
+      }
+    });
+
+    this.addCommand({
+      id: 'revisions',
+      name: this.#i18n.t('command_revisions'),
+      editorCallback: () => {
+        this.doWithActiveNoteProfile(profile => doClientAction(this, profile, client => client.browseRevisions()));
+      }
+    });
+
+    this.addCommand({
+      id: 'trash',
+      name: this.#i18n.t('command_trash'),
+      editorCallback: () => {
+        this.doWithActiveNoteProfile(profile => doClientAction(this, profile, client => client.trashCurrentPost()));
+      }
+    });
+
+    this.addCommand({
+      id: 'restore',
+      name: this.#i18n.t('command_restore'),
+      editorCallback: () => {
+        this.doWithActiveNoteProfile(profile => doClientAction(this, profile, client => client.restoreCurrentPost()));
+      }
+    });
+
+    this.addCommand({
+      id: 'delete',
+      name: this.#i18n.t('command_delete'),
+      editorCallback: () => {
+        this.doWithActiveNoteProfile(profile => doClientAction(this, profile, client => client.deleteCurrentPost()));
+      }
+    });
+
+    this.addCommand({
+      id: 'import',
+      name: this.#i18n.t('command_import'),
+      callback: () => {
+        this.importPosts();
+      }
+    });
+
+    this.addCommand({
+      id: 'publishFolder',
+      name: this.#i18n.t('command_publishFolder'),
+      callback: async () => {
+        batchPublish(this, [ await openFolderSuggestModal(this) ]).then();
+      }
+    });
+
+    this.addCommand({
+      id: 'publishQueue',
+      name: this.#i18n.t('command_publishQueue'),
+      callback: () => {
+        openPublishQueueModal(this);
+      }
+    });
+
+    this.registerFileMenus();
+
     this.addSettingTab(new WordpressSettingTab(this));
   }
 
   onunload() {
+    this.#publishQueue?.stop();
   }
 
   async loadSettings() {
@@ -156,6 +258,57 @@ export default class WordpressPlugin extends Plugin {
     }
   }
 
+  /**
+   * Run action with the profile of active note, or pick one if the note is not linked to any.
+   */
+  private async doWithActiveNoteProfile(action: (profile: WpProfile) => void) {
+    const file = this.app.workspace.getActiveFile();
+    if (!file) {
+      showError(this.i18n.t('error_noActiveFile'));
+      return;
+    }
+    const profileName = this.app.metadataCache.getFileCache(file)?.frontmatter?.wp_profile;
+    const profile = this.settings.profiles.find(it => it.name === profileName);
+    if (profile) {
+      action(profile);
+    } else if (this.settings.profiles.length === 1) {
+      action(this.settings.profiles[0]);
+    } else if (this.settings.profiles.length > 1) {
+      action(await openProfileChooserModal(this));
+    } else {
+      showError(this.i18n.t('error_noProfile'));
+    }
+  }
+
+  private async importPosts() {
+    if (this.settings.profiles.length === 1) {
+      doClientAction(this, this.settings.profiles[0], client => client.importPosts());
+    } else if (this.settings.profiles.length > 1) {
+      doClientAction(this, await openProfileChooserModal(this), client => client.importPosts());
+    } else {
+      showError(this.i18n.t('error_noProfile'));
+    }
+  }
+
+  private registerFileMenus(): void {
+    const addPublishItem = (menu: Menu, files: TAbstractFile[], title: string): void => {
+      menu.addItem(item => item
+        .setTitle(title)
+        .setIcon('wp-logo')
+        .onClick(() => {
+          batchPublish(this, files).then();
+        }));
+    };
+    this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+      if (file instanceof TFolder) {
+        addPublishItem(menu, [ file ], this.i18n.t('menu_publishFolder'));
+      }
+    }));
+    this.registerEvent(this.app.workspace.on('files-menu', (menu, files) => {
+      addPublishItem(menu, files, this.i18n.t('menu_publishFiles'));
+    }));
+  }
+
   private registerProtocolHandler(): void {
     this.registerObsidianProtocolHandler(WP_OAUTH2_URL_ACTION, async (e) => {
       if (e.action === WP_OAUTH2_URL_ACTION) {
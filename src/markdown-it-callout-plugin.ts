@@ -0,0 +1,199 @@
+import MarkdownIt from 'markdown-it';
+import juice from 'juice';
+
+type Token = MarkdownIt.Token;
+
+const tokenType = 'callout';
+
+interface MarkdownItCalloutPluginOptions {
+  /**
+   * CSS classes by callout type, `callout-{type}` is used for types not in it.
+   */
+  classes: Record<string, string>;
+
+  /**
+   * Inline default stylesheet into `style` attributes.
+   */
+  inlineStyles: boolean;
+}
+
+const pluginOptions: MarkdownItCalloutPluginOptions = {
+  classes: {},
+  inlineStyles: false,
+}
+
+export const MarkdownItCalloutPluginInstance = {
+  plugin: plugin,
+  updateClasses: (classes: Record<string, string>) => {
+    pluginOptions.classes = classes;
+  },
+  updateInlineStyles: (inlineStyles: boolean) => {
+    pluginOptions.inlineStyles = inlineStyles;
+  },
+}
+
+interface CalloutInfo {
+  type: string;
+
+  /**
+   * `-` for collapsed and `+` for expanded foldable callouts.
+   */
+  fold: string;
+
+  /**
+   * Inline tokens of the title, parsed with the document.
+   */
+  title: Token[];
+}
+
+const CALLOUT_REGEX = /^\[!([^\]\s]+)\]([+-]?)[ \t]*(.*)$/;
+
+const DEFAULT_STYLESHEET = `
+.callout { margin: 1em 0; padding: 0.75em 1em; border-left: 4px solid #086ddd; border-radius: 4px; background-color: rgba(8, 109, 221, 0.1); }
+.callout-title { margin: 0 0 0.5em; font-weight: 600; color: #086ddd; }
+summary.callout-title { cursor: pointer; }
+.callout-content > :last-child { margin-bottom: 0; }
+.callout-abstract { border-left-color: #00bfbc; background-color: rgba(0, 191, 188, 0.1); }
+.callout-abstract .callout-title { color: #00bfbc; }
+.callout-tip, .callout-success { border-left-color: #08b94e; background-color: rgba(8, 185, 78, 0.1); }
+.callout-tip .callout-title, .callout-success .callout-title { color: #08b94e; }
+.callout-question, .callout-warning { border-left-color: #ec7500; background-color: rgba(236, 117, 0, 0.1); }
+.callout-question .callout-title, .callout-warning .callout-title { color: #ec7500; }
+.callout-failure, .callout-danger, .callout-bug { border-left-color: #e93147; background-color: rgba(233, 49, 71, 0.1); }
+.callout-failure .callout-title, .callout-danger .callout-title, .callout-bug .callout-title { color: #e93147; }
+.callout-example { border-left-color: #7852ee; background-color: rgba(120, 82, 238, 0.1); }
+.callout-example .callout-title { color: #7852ee; }
+.callout-quote { border-left-color: #9e9e9e; background-color: rgba(158, 158, 158, 0.1); }
+.callout-quote .callout-title { color: #9e9e9e; }
+`;
+
+function findClose(tokens: Token[], idx: number): number {
+  let depth = 0;
+  for (let i = idx; i < tokens.length; i++) {
+    depth += tokens[i].nesting;
+    if (depth === 0) {
+      return i;
+    }
+  }
+  return tokens.length - 1;
+}
+
+/**
+ * Read callout type and title from the first line of the quote, and remove the line.
+ */
+function readCallout(
+  tokens: Token[],
+  idx: number,
+  close: number,
+  createText: (content: string) => Token
+): CalloutInfo | undefined {
+  const paragraph = tokens[idx + 1];
+  const inline = tokens[idx + 2];
+  if (paragraph?.type !== 'paragraph_open' || inline?.type !== 'inline' || idx + 2 >= close) {
+    return undefined;
+  }
+  const lineEnd = inline.content.indexOf('\n');
+  const match = inline.content.substring(0, lineEnd < 0 ? undefined : lineEnd).match(CALLOUT_REGEX);
+  if (!match) {
+    return undefined;
+  }
+  const type = match[1].toLowerCase();
+  const children = inline.children ?? [];
+  const breakIndex = children.findIndex(it => it.type === 'softbreak' || it.type === 'hardbreak');
+  let title: Token[];
+  if (breakIndex < 0) {
+    // callout without content
+    title = children;
+    tokens.splice(idx + 1, 3);
+  } else {
+    title = children.slice(0, breakIndex);
+    inline.children = children.slice(breakIndex + 1);
+    inline.content = inline.content.substring(lineEnd + 1);
+  }
+  // remove `[!type]` from title
+  const marker = match[0].substring(0, match[0].length - match[3].length);
+  if (title[0]?.type === 'text' && title[0].content.startsWith(marker)) {
+    title[0].content = title[0].content.substring(marker.length);
+  }
+  if (match[3].trim().length === 0) {
+    title = [ createText(type.charAt(0).toUpperCase() + type.substring(1)) ];
+  }
+  return {
+    type,
+    fold: match[2],
+    title
+  };
+}
+
+/**
+ * Replace quotes starting with `[!type]` by callout tokens, whose children are tokens inside.
+ */
+function toCallouts(
+  tokens: Token[],
+  createToken: (info: CalloutInfo, children: Token[]) => Token,
+  createText: (content: string) => Token
+): Token[] {
+  const result: Token[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const token = tokens[i];
+    if (token.type !== 'blockquote_open') {
+      result.push(token);
+      i++;
+      continue;
+    }
+    let close = findClose(tokens, i);
+    const info = readCallout(tokens, i, close, createText);
+    // the first line might be removed
+    close = findClose(tokens, i);
+    const children = toCallouts(tokens.slice(i + 1, close), createToken, createText);
+    if (info) {
+      const callout = createToken(info, children);
+      callout.map = token.map;
+      result.push(callout);
+    } else {
+      result.push(token, ...children, tokens[close]);
+    }
+    i = close + 1;
+  }
+  return result;
+}
+
+function plugin(md: MarkdownIt): void {
+  md.core.ruler.push(tokenType, (state) => {
+    state.tokens = toCallouts(state.tokens, (info, children) => {
+      const token = new state.Token(tokenType, info.fold ? 'details' : 'aside', 0);
+      token.block = true;
+      token.meta = info;
+      token.children = children;
+      return token;
+    }, (content) => {
+      const token = new state.Token('text', '', 0);
+      token.content = content;
+      return token;
+    });
+    return true;
+  });
+
+  md.renderer.rules[tokenType] = (tokens, idx, options, env, self) => {
+    const token = tokens[idx];
+    const { type, fold, title } = token.meta as CalloutInfo;
+    const className = md.utils.escapeHtml(`callout ${pluginOptions.classes[type] ?? `callout-${type}`}`);
+    const titleHtml = self.renderInline(title, options, env);
+    const children = token.children ?? [];
+    const content = children.length > 0
+      ? `<div class="callout-content">\n${self.render(children, options, env)}</div>\n`
+      : '';
+    let html: string;
+    if (fold) {
+      const open = fold === '+' ? ' open' : '';
+      html = `<details class="${className}"${open}>\n<summary class="callout-title">${titleHtml}</summary>\n${content}</details>\n`;
+    } else {
+      html = `<aside class="${className}">\n<p class="callout-title">${titleHtml}</p>\n${content}</aside>\n`;
+    }
+    if (pluginOptions.inlineStyles) {
+      return `${juice(`${html}<style>${DEFAULT_STYLESHEET}</style>`)}\n`;
+    }
+    return html;
+  };
+}
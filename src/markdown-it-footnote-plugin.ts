@@ -0,0 +1,200 @@
+import MarkdownIt from 'markdown-it';
+import { SafeAny } from './utils';
+
+type Token = MarkdownIt.Token;
+
+const refTokenType = 'footnote_ref';
+const backrefsTokenType = 'footnote_backrefs';
+
+interface MarkdownItFootnotePluginOptions {
+  enabled: boolean;
+}
+
+const pluginOptions: MarkdownItFootnotePluginOptions = {
+  enabled: true,
+}
+
+export const MarkdownItFootnotePluginInstance = {
+  plugin: plugin,
+  updateEnabled: (enabled: boolean) => {
+    pluginOptions.enabled = enabled;
+  },
+}
+
+/**
+ * Footnotes of the document being rendered, saved in markdown-it env.
+ */
+interface Footnotes {
+  /**
+   * Markdown content of definitions by label.
+   */
+  definitions: Record<string, string>;
+
+  /**
+   * Labels in order of their first references, footnotes are numbered by it.
+   */
+  labels: string[];
+
+  /**
+   * Count of references by label.
+   */
+  refCounts: Record<string, number>;
+}
+
+interface FootnoteMeta {
+  id: number;
+
+  /**
+   * Which reference of the footnote, starts from 1.
+   */
+  subId?: number;
+
+  count?: number;
+}
+
+function getFootnotes(env: SafeAny): Footnotes {
+  if (!env.footnotes) {
+    env.footnotes = {
+      definitions: {},
+      labels: [],
+      refCounts: {}
+    };
+  }
+  return env.footnotes;
+}
+
+function toRefId(id: number, subId: number): string {
+  return subId > 1 ? `fnref-${id}-${subId}` : `fnref-${id}`;
+}
+
+function plugin(md: MarkdownIt): void {
+  // `[^label]: text`, following lines indented are parts of it
+  md.block.ruler.before('reference', 'footnote_def', (state, startLine, endLine, silent) => {
+    if (!pluginOptions.enabled || state.sCount[startLine] - state.blkIndent >= 4) {
+      return false;
+    }
+    const start = state.bMarks[startLine] + state.tShift[startLine];
+    const max = state.eMarks[startLine];
+    const match = state.src.slice(start, max).match(/^\[\^([^\]\s]+)\]:[ \t]?/);
+    if (!match) {
+      return false;
+    }
+    if (silent) {
+      return true;
+    }
+
+    const lines = [ state.src.slice(start + match[0].length, max) ];
+    let nextLine = startLine + 1;
+    for (; nextLine < endLine; nextLine++) {
+      if (state.isEmpty(nextLine)) {
+        lines.push('');
+      } else if (state.sCount[nextLine] - state.blkIndent >= 2) {
+        lines.push(state.src.slice(state.bMarks[nextLine], state.eMarks[nextLine]).replace(/^(?: {1,4}|\t)/, ''));
+      } else {
+        break;
+      }
+    }
+
+    const footnotes = getFootnotes(state.env);
+    const label = match[1];
+    // the first definition is used like link references
+    if (footnotes.definitions[label] === undefined) {
+      footnotes.definitions[label] = lines.join('\n').trim();
+    }
+    state.line = nextLine;
+    return true;
+  }, { alt: [ 'paragraph', 'reference' ] });
+
+  // `[^label]` of defined footnotes
+  md.inline.ruler.before('link', refTokenType, (state, silent) => {
+    if (!pluginOptions.enabled
+      || state.src.charCodeAt(state.pos) !== 0x5B /* [ */
+      || state.src.charCodeAt(state.pos + 1) !== 0x5E /* ^ */) {
+      return false;
+    }
+    const match = state.src.slice(state.pos, state.posMax).match(/^\[\^([^\]\s]+)\]/);
+    const footnotes = getFootnotes(state.env);
+    if (!match || footnotes.definitions[match[1]] === undefined) {
+      return false;
+    }
+    if (!silent) {
+      const label = match[1];
+      if (!footnotes.labels.includes(label)) {
+        footnotes.labels.push(label);
+      }
+      footnotes.refCounts[label] = (footnotes.refCounts[label] ?? 0) + 1;
+      const token = state.push(refTokenType, 'sup', 0);
+      token.meta = {
+        id: footnotes.labels.indexOf(label) + 1,
+        subId: footnotes.refCounts[label]
+      } as FootnoteMeta;
+    }
+    state.pos += match[0].length;
+    return true;
+  });
+
+  // footnotes section at the end of document, with links back to references
+  md.core.ruler.after('inline', 'footnote_tail', (state) => {
+    const footnotes: Footnotes | undefined = state.env.footnotes;
+    // footnotes are only appended to documents
+    if (!pluginOptions.enabled || state.inlineMode || !footnotes || footnotes.labels.length === 0) {
+      return false;
+    }
+    const tokens: Token[] = [ new state.Token('footnote_block_open', 'section', 1) ];
+    // footnotes referred in footnotes are appended while parsing
+    for (let i = 0; i < footnotes.labels.length; i++) {
+      const label = footnotes.labels[i];
+      const meta: FootnoteMeta = { id: i + 1 };
+      const open = new state.Token('footnote_open', 'li', 1);
+      open.meta = meta;
+
+      const content: Token[] = [];
+      state.md.block.parse(footnotes.definitions[label], state.md, state.env, content);
+      content
+        .filter(it => it.type === 'inline')
+        .forEach(it => {
+          it.children = [];
+          state.md.inline.parse(it.content, state.md, state.env, it.children);
+        });
+
+      const backrefs = new state.Token(backrefsTokenType, '', 0);
+      backrefs.meta = { id: i + 1, count: footnotes.refCounts[label] } as FootnoteMeta;
+      const last = content[content.length - 2];
+      if (content[content.length - 1]?.type === 'paragraph_close' && last?.type === 'inline') {
+        last.children?.push(backrefs);
+        tokens.push(open, ...content);
+      } else {
+        tokens.push(open, ...content, backrefs);
+      }
+      tokens.push(new state.Token('footnote_close', 'li', -1));
+    }
+    tokens.push(new state.Token('footnote_block_close', 'section', -1));
+    state.tokens.push(...tokens);
+    return true;
+  });
+
+  md.renderer.rules[refTokenType] = (tokens, idx) => {
+    const { id, subId } = tokens[idx].meta as FootnoteMeta;
+    return `<sup class="footnote-ref"><a href="#fn-${id}" id="${toRefId(id, subId ?? 1)}">${id}</a></sup>`;
+  };
+  md.renderer.rules[backrefsTokenType] = (tokens, idx) => {
+    const { id, count } = tokens[idx].meta as FootnoteMeta;
+    let html = '';
+    for (let subId = 1; subId <= (count ?? 1); subId++) {
+      html += ` <a href="#${toRefId(id, subId)}" class="footnote-backref">↩︎</a>`;
+    }
+    return html;
+  };
+  md.renderer.rules.footnote_block_open = () => {
+    return '<section class="footnotes">\n<hr>\n<ol class="footnotes-list">\n';
+  };
+  md.renderer.rules.footnote_block_close = () => {
+    return '</ol>\n</section>\n';
+  };
+  md.renderer.rules.footnote_open = (tokens, idx) => {
+    return `<li id="fn-${(tokens[idx].meta as FootnoteMeta).id}" class="footnote-item">`;
+  };
+  md.renderer.rules.footnote_close = () => {
+    return '</li>\n';
+  };
+}
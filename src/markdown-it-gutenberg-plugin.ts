@@ -0,0 +1,201 @@
+import MarkdownIt from 'markdown-it';
+import { SafeAny } from './utils';
+
+type Token = MarkdownIt.Token;
+
+const openTokenType = 'gutenberg_block_open';
+const closeTokenType = 'gutenberg_block_close';
+
+interface MarkdownItGutenbergPluginOptions {
+  enabled: boolean;
+}
+
+const pluginOptions: MarkdownItGutenbergPluginOptions = {
+  enabled: false,
+}
+
+export const MarkdownItGutenbergPluginInstance = {
+  plugin: plugin,
+  updateEnabled: (enabled: boolean) => {
+    pluginOptions.enabled = enabled;
+  },
+}
+
+/**
+ * Block to be serialized as `<!-- wp:name {attrs} -->`.
+ */
+interface BlockInfo {
+  name: string;
+  attrs?: Record<string, SafeAny>;
+
+  /**
+   * HTML wrapped around block content, like `<figure>` of tables.
+   */
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Where tokens are, only tokens in root or quotes are blocks,
+ * items of lists are list item blocks, and lists in list items are nested list blocks.
+ */
+const enum BlockContext {
+  Root,
+  Quote,
+  List,
+  ListItem,
+  None
+}
+
+const IMAGE_TOKEN_TYPES = [ 'image', 'ob_img' ];
+
+function isImageParagraph(inline: Token | undefined): boolean {
+  const children = (inline?.children ?? [])
+    .filter(it => it.type !== 'softbreak' && !(it.type === 'text' && it.content.trim().length === 0));
+  return children.length === 1 && IMAGE_TOKEN_TYPES.includes(children[0].type);
+}
+
+function getBlockInfo(tokens: Token[], idx: number, close: number): BlockInfo {
+  const token = tokens[idx];
+  switch (token.type) {
+    case 'paragraph_open':
+      if (isImageParagraph(tokens[idx + 1])) {
+        token.tag = 'figure';
+        tokens[close].tag = 'figure';
+        token.attrJoin('class', 'wp-block-image');
+        return { name: 'image' };
+      }
+      return { name: 'paragraph' };
+    case 'heading_open': {
+      token.attrJoin('class', 'wp-block-heading');
+      const level = parseInt(token.tag.substring(1), 10);
+      // level 2 is the default one, which is not serialized
+      return { name: 'heading', attrs: level === 2 ? undefined : { level } };
+    }
+    case 'bullet_list_open':
+      return { name: 'list' };
+    case 'ordered_list_open': {
+      const start = parseInt(token.attrGet('start') ?? '1', 10);
+      return { name: 'list', attrs: start === 1 ? { ordered: true } : { ordered: true, start } };
+    }
+    case 'blockquote_open':
+      token.attrJoin('class', 'wp-block-quote');
+      return { name: 'quote' };
+    case 'fence':
+    case 'code_block':
+      token.meta = { ...token.meta, gutenberg: true };
+      return { name: 'code' };
+    case 'table_open':
+      return { name: 'table', before: '<figure class="wp-block-table">', after: '</figure>\n' };
+    case 'hr':
+      token.attrJoin('class', 'wp-block-separator has-alpha-channel-opacity');
+      return { name: 'separator' };
+    default:
+      // raw HTML, math and other blocks without a core block
+      return { name: 'html' };
+  }
+}
+
+function getChildContext(token: Token): BlockContext {
+  switch (token.type) {
+    case 'blockquote_open':
+      return BlockContext.Quote;
+    case 'bullet_list_open':
+    case 'ordered_list_open':
+      return BlockContext.List;
+    case 'list_item_open':
+      return BlockContext.ListItem;
+    default:
+      return BlockContext.None;
+  }
+}
+
+function findClose(tokens: Token[], idx: number): number {
+  if (tokens[idx].nesting !== 1) {
+    return idx;
+  }
+  let depth = 0;
+  for (let i = idx; i < tokens.length; i++) {
+    depth += tokens[i].nesting;
+    if (depth === 0) {
+      return i;
+    }
+  }
+  return tokens.length - 1;
+}
+
+function wrapBlocks(
+  tokens: Token[],
+  start: number,
+  end: number,
+  context: BlockContext,
+  createToken: (type: string, info: BlockInfo) => Token
+): Token[] {
+  const result: Token[] = [];
+  let i = start;
+  while (i < end) {
+    const token = tokens[i];
+    const close = findClose(tokens, i);
+    let info: BlockInfo | undefined;
+    if (context === BlockContext.Root || context === BlockContext.Quote) {
+      info = getBlockInfo(tokens, i, close);
+    } else if (context === BlockContext.List && token.type === 'list_item_open') {
+      info = { name: 'list-item' };
+    } else if (context === BlockContext.ListItem
+      && (token.type === 'bullet_list_open' || token.type === 'ordered_list_open')) {
+      info = getBlockInfo(tokens, i, close);
+    }
+
+    if (info) {
+      result.push(createToken(openTokenType, info));
+    }
+    result.push(token);
+    if (close > i) {
+      result.push(...wrapBlocks(tokens, i + 1, close, getChildContext(token), createToken));
+      result.push(tokens[close]);
+    }
+    if (info) {
+      result.push(createToken(closeTokenType, info));
+    }
+    i = close + 1;
+  }
+  return result;
+}
+
+function plugin(md: MarkdownIt): void {
+  md.core.ruler.push('gutenberg_blocks', (state) => {
+    // inline rendering has no blocks
+    if (!pluginOptions.enabled || state.inlineMode) {
+      return false;
+    }
+    state.tokens = wrapBlocks(state.tokens, 0, state.tokens.length, BlockContext.Root, (type, info) => {
+      const token = new state.Token(type, '', 0);
+      token.block = true;
+      token.meta = info;
+      return token;
+    });
+    return true;
+  });
+
+  md.renderer.rules[openTokenType] = (tokens: Token[], idx: number) => {
+    const { name, attrs, before } = tokens[idx].meta as BlockInfo;
+    const serializedAttrs = attrs ? ` ${JSON.stringify(attrs)}` : '';
+    return `<!-- wp:${name}${serializedAttrs} -->\n${before ?? ''}`;
+  };
+  md.renderer.rules[closeTokenType] = (tokens: Token[], idx: number) => {
+    const { name, after } = tokens[idx].meta as BlockInfo;
+    return `${after ?? ''}<!-- /wp:${name} -->\n\n`;
+  };
+
+  // code block needs its class on `<pre>`
+  for (const type of [ 'fence', 'code_block' ]) {
+    const defaultRule = md.renderer.rules[type];
+    md.renderer.rules[type] = (tokens, idx, options, env, self) => {
+      const html = defaultRule ? defaultRule(tokens, idx, options, env, self) : self.renderToken(tokens, idx, options);
+      if (tokens[idx].meta?.gutenberg) {
+        return html.replace(/^<pre>/, '<pre class="wp-block-code">');
+      }
+      return html;
+    };
+  }
+}
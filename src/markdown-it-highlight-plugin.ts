@@ -0,0 +1,64 @@
+import MarkdownIt from 'markdown-it';
+
+const tokenType = 'ob_highlight';
+
+interface MarkdownItHighlightPluginOptions {
+  enabled: boolean;
+}
+
+const pluginOptions: MarkdownItHighlightPluginOptions = {
+  enabled: true,
+}
+
+export const MarkdownItHighlightPluginInstance = {
+  plugin: plugin,
+  updateEnabled: (enabled: boolean) => {
+    pluginOptions.enabled = enabled;
+  },
+}
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 /* space */ || code === 0x09 /* \t */ || code === 0x0A /* \n */;
+}
+
+function plugin(md: MarkdownIt): void {
+  // `==highlight==` into `<mark>`
+  md.inline.ruler.before('emphasis', tokenType, (state, silent) => {
+    if (!pluginOptions.enabled) {
+      return false;
+    }
+    const start = state.pos;
+    const max = state.posMax;
+    const src = state.src;
+
+    // check if start with == but not ===
+    if (src.charCodeAt(start) !== 0x3D /* = */ || src.charCodeAt(start + 1) !== 0x3D /* = */) {
+      return false;
+    }
+    if (start + 2 >= max || src.charCodeAt(start + 2) === 0x3D /* = */ || isWhitespace(src.charCodeAt(start + 2))) {
+      return false;
+    }
+
+    // find ended == not after whitespace
+    let end = src.indexOf('==', start + 2);
+    while (end >= 0 && end + 2 <= max && isWhitespace(src.charCodeAt(end - 1))) {
+      end = src.indexOf('==', end + 2);
+    }
+    if (end < 0 || end + 2 > max) {
+      return false;
+    }
+
+    if (!silent) {
+      state.push('mark_open', 'mark', 1);
+      const oldPosMax = state.posMax;
+      state.pos = start + 2;
+      state.posMax = end;
+      state.md.inline.tokenize(state);
+      state.posMax = oldPosMax;
+      state.push('mark_close', 'mark', -1);
+    }
+
+    state.pos = end + 2;
+    return true;
+  });
+}
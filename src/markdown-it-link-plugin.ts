@@ -0,0 +1,178 @@
+import MarkdownIt from 'markdown-it';
+import { UnpublishedLinkFallback } from './plugin-settings';
+
+type Token = MarkdownIt.Token;
+
+const tokenType = 'ob_link';
+
+export interface MarkdownItResolvedLink {
+  /**
+   * URL of the published post, undefined if the note is not published yet.
+   */
+  url?: string;
+}
+
+interface MarkdownItLinkPluginOptions {
+  fallback: UnpublishedLinkFallback;
+
+  /**
+   * Find the note linked by its path, returns undefined if there is no such note.
+   */
+  resolveLink: (linkpath: string) => MarkdownItResolvedLink | undefined;
+
+  doWithUnpublishedLink: (linkpath: string) => void;
+}
+
+const pluginOptions: MarkdownItLinkPluginOptions = {
+  fallback: UnpublishedLinkFallback.Text,
+  resolveLink: () => undefined,
+  doWithUnpublishedLink: () => {},
+}
+
+export const MarkdownItLinkPluginInstance = {
+  plugin: plugin,
+  updateFallback: (fallback: UnpublishedLinkFallback) => {
+    pluginOptions.fallback = fallback;
+  },
+  resolveLink: (resolve: (linkpath: string) => MarkdownItResolvedLink | undefined) => {
+    pluginOptions.resolveLink = resolve;
+  },
+  doWithUnpublishedLink: (action: (linkpath: string) => void) => {
+    pluginOptions.doWithUnpublishedLink = action;
+  },
+}
+
+/**
+ * Anchor of a heading, also used as `id` of rendered headings.
+ */
+export function toAnchor(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\w\s\u00C0-\uFFFF-]/g, '')
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * Split `Note#Heading` into note path and anchor.
+ * Block references like `Note#^block` have no anchor in rendered HTML.
+ */
+function splitLink(link: string): { linkpath: string, subpath?: string, anchor?: string } {
+  const index = link.indexOf('#');
+  if (index < 0) {
+    return { linkpath: link.trim() };
+  }
+  const subpath = link.substring(index + 1).trim();
+  return {
+    linkpath: link.substring(0, index).trim(),
+    subpath,
+    anchor: subpath.length > 0 && !subpath.startsWith('^') ? toAnchor(subpath.split('#').pop() ?? '') : undefined
+  };
+}
+
+function toHref(url: string, anchor: string | undefined): string {
+  return anchor ? `${url.replace(/#.*$/, '')}#${anchor}` : url;
+}
+
+function isExternalLink(href: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('//');
+}
+
+function safeDecode(href: string): string {
+  try {
+    return decodeURI(href);
+  } catch {
+    return href;
+  }
+}
+
+function plugin(md: MarkdownIt): void {
+  // `[[Note]]`, `[[Note#Heading]]` and `[[Note|Alias]]`,
+  // embeds start with `!` which are handled by other rules
+  md.inline.ruler.before('link', tokenType, (state, silent) => {
+    if (state.pos > 0 && state.src.charCodeAt(state.pos - 1) === 0x21 /* ! */) {
+      return false;
+    }
+    const regex = /^\[\[([^|\]\n]*)(\|([^\]\n]*))?\]\]/;
+    const match = state.src.slice(state.pos).match(regex);
+    if (!match) {
+      return false;
+    }
+    if (silent) {
+      return true;
+    }
+    const { linkpath, subpath, anchor } = splitLink(match[1]);
+    let text = match[3]?.trim();
+    if (!text) {
+      text = subpath ? [ linkpath, subpath.replace(/^\^/, '') ].filter(it => it.length > 0).join(' > ') : linkpath;
+    }
+    // link to heading of the note itself
+    const url = linkpath.length > 0 ? pluginOptions.resolveLink(linkpath)?.url : '';
+    if (url !== undefined) {
+      const open = state.push('link_open', 'a', 1);
+      open.attrs = [ [ 'href', toHref(url, anchor) ] ];
+      open.markup = 'wikilink';
+      open.info = 'auto';
+      const token = state.push('text', '', 0);
+      token.content = text;
+      state.push('link_close', 'a', -1).markup = 'wikilink';
+    } else {
+      const token = state.push('text', '', 0);
+      token.content = pluginOptions.fallback === UnpublishedLinkFallback.Keep ? match[0] : text;
+      pluginOptions.doWithUnpublishedLink(linkpath);
+    }
+    state.pos += match[0].length;
+    return true;
+  });
+
+  // `[text](Other%20Note.md)` links
+  md.core.ruler.push(tokenType, (state) => {
+    state.tokens.forEach(blockToken => {
+      const children = blockToken.children;
+      if (blockToken.type !== 'inline' || !children) {
+        return;
+      }
+      const result: Token[] = [];
+      let unlinkUntilClose = false;
+      children.forEach(token => {
+        if (token.type === 'link_open' && token.markup !== 'wikilink') {
+          const href = token.attrGet('href') ?? '';
+          if (href.length > 0 && !href.startsWith('#') && !isExternalLink(href)) {
+            const { linkpath, anchor } = splitLink(safeDecode(href));
+            const resolved = pluginOptions.resolveLink(linkpath);
+            if (resolved?.url) {
+              token.attrSet('href', toHref(resolved.url, anchor));
+            } else if (resolved || linkpath.endsWith('.md')) {
+              pluginOptions.doWithUnpublishedLink(linkpath);
+              if (pluginOptions.fallback !== UnpublishedLinkFallback.Keep) {
+                // links could not be nested, so the next close token is the matched one
+                unlinkUntilClose = true;
+                return;
+              }
+            }
+          }
+        } else if (token.type === 'link_close' && unlinkUntilClose) {
+          unlinkUntilClose = false;
+          return;
+        }
+        result.push(token);
+      });
+      blockToken.children = result;
+    });
+    return true;
+  });
+
+  // headings have ids to be linked by anchors
+  md.core.ruler.push('ob_heading_anchor', (state) => {
+    state.tokens.forEach((token, idx) => {
+      const inline = state.tokens[idx + 1];
+      if (token.type === 'heading_open' && inline?.type === 'inline' && !token.attrGet('id')) {
+        const anchor = toAnchor(inline.content);
+        if (anchor.length > 0) {
+          token.attrSet('id', anchor);
+        }
+      }
+    });
+    return true;
+  });
+}
@@ -0,0 +1,65 @@
+import MarkdownIt from 'markdown-it';
+
+type Token = MarkdownIt.Token;
+
+const tokenType = 'ob_task_list';
+
+interface MarkdownItTaskListPluginOptions {
+  enabled: boolean;
+}
+
+const pluginOptions: MarkdownItTaskListPluginOptions = {
+  enabled: true,
+}
+
+export const MarkdownItTaskListPluginInstance = {
+  plugin: plugin,
+  updateEnabled: (enabled: boolean) => {
+    pluginOptions.enabled = enabled;
+  },
+}
+
+const TASK_REGEX = /^\[([ xX])\][ \t]+/;
+
+function plugin(md: MarkdownIt): void {
+  // `- [ ] task` and `- [x] task` into disabled checkboxes
+  md.core.ruler.after('inline', tokenType, (state) => {
+    if (!pluginOptions.enabled) {
+      return false;
+    }
+    const tokens = state.tokens;
+    const lists: Token[] = [];
+    tokens.forEach((token, idx) => {
+      if (token.type === 'bullet_list_open' || token.type === 'ordered_list_open') {
+        lists.push(token);
+        return;
+      }
+      if (token.type === 'bullet_list_close' || token.type === 'ordered_list_close') {
+        lists.pop();
+        return;
+      }
+      const inline = tokens[idx + 2];
+      if (token.type !== 'list_item_open'
+        || tokens[idx + 1]?.type !== 'paragraph_open'
+        || inline?.type !== 'inline') {
+        return;
+      }
+      const first = inline.children?.[0];
+      const match = first?.type === 'text' ? first.content.match(TASK_REGEX) : null;
+      if (!first || !match) {
+        return;
+      }
+      first.content = first.content.substring(match[0].length);
+      const checkbox = new state.Token('html_inline', '', 0);
+      const checked = match[1] === ' ' ? '' : ' checked';
+      checkbox.content = `<input class="task-list-item-checkbox" type="checkbox" disabled${checked}> `;
+      inline.children?.unshift(checkbox);
+      token.attrJoin('class', 'task-list-item');
+      const list = lists[lists.length - 1];
+      if (list && !(list.attrGet('class') ?? '').split(' ').includes('contains-task-list')) {
+        list.attrJoin('class', 'contains-task-list');
+      }
+    });
+    return true;
+  });
+}
@@ -0,0 +1,141 @@
+import { App, TFile } from 'obsidian';
+
+
+/**
+ * Embeds nested deeper than this are kept as links.
+ */
+const MAX_EMBED_DEPTH = 5;
+
+const EMBED_REGEX = /!\[\[([^|\]\n]+)(\|[^\]\n]*)?\]\]/g;
+
+const LINE_PREFIX_REGEX = /^[\s>]*(?:(?:[-*+]|\d+[.)])\s+)?$/;
+
+const FENCED_CODE_REGEX = /^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?^ {0,3}\1[ \t]*$/gm;
+
+/**
+ * Replace embeds of notes like `![[Note]]`, `![[Note#Heading]]` and `![[Note#^block]]`
+ * by content of embedded notes, sections or blocks, so they are published as shown in Obsidian.
+ *
+ * Embeds of other files like images are not changed.
+ * Embeds could not be resolved, or embedding themselves, are replaced by links.
+ *
+ * @param transform called with content of each embedded note, like uploading its images
+ */
+export async function embedNotes(
+  app: App,
+  file: TFile,
+  content: string,
+  transform: (content: string) => Promise<string> = async (content) => content
+): Promise<string> {
+  return embedNotesOf(app, file, content, transform, [ `${file.path}#` ]);
+}
+
+async function embedNotesOf(
+  app: App,
+  file: TFile,
+  content: string,
+  transform: (content: string) => Promise<string>,
+  chain: string[]
+): Promise<string> {
+  // embeds in code blocks are code
+  const regex = new RegExp(FENCED_CODE_REGEX);
+  let result = '';
+  let last = 0;
+  let match;
+  while ((match = regex.exec(content)) !== null) {
+    result += await replaceEmbeds(app, file, content.substring(last, match.index), transform, chain);
+    result += match[0];
+    last = match.index + match[0].length;
+  }
+  result += await replaceEmbeds(app, file, content.substring(last), transform, chain);
+  return result;
+}
+
+async function replaceEmbeds(
+  app: App,
+  file: TFile,
+  content: string,
+  transform: (content: string) => Promise<string>,
+  chain: string[]
+): Promise<string> {
+  const regex = new RegExp(EMBED_REGEX);
+  let result = '';
+  let last = 0;
+  let match;
+  while ((match = regex.exec(content)) !== null) {
+    result += content.substring(last, match.index);
+    const embedded = await getEmbedded(app, file, match, transform, chain);
+    // embeds in quotes or list items keep following lines in them
+    const linePrefix = content.substring(content.lastIndexOf('\n', match.index - 1) + 1, match.index);
+    if (LINE_PREFIX_REGEX.test(linePrefix)) {
+      result += embedded.replace(/\n/g, `\n${linePrefix.replace(/[^>\s]/g, ' ')}`);
+    } else {
+      result += embedded;
+    }
+    last = match.index + match[0].length;
+  }
+  return result + content.substring(last);
+}
+
+async function getEmbedded(
+  app: App,
+  file: TFile,
+  match: RegExpExecArray,
+  transform: (content: string) => Promise<string>,
+  chain: string[]
+): Promise<string> {
+  const [ embed, link ] = match;
+  const index = link.indexOf('#');
+  const linkpath = (index < 0 ? link : link.substring(0, index)).trim();
+  const subpath = index < 0 ? '' : link.substring(index + 1).trim();
+  const target = linkpath.length > 0 ? app.metadataCache.getFirstLinkpathDest(linkpath, file.path) : file;
+  if (target ? target.extension !== 'md' : /\.\w+$/.test(linkpath)) {
+    // images and other attachments
+    return embed;
+  }
+  const key = `${target?.path}#${subpath}`;
+  if (!target || chain.includes(key) || chain.length > MAX_EMBED_DEPTH) {
+    return embed.substring(1);
+  }
+  const section = await getSection(app, target, subpath);
+  if (section === undefined) {
+    return embed.substring(1);
+  }
+  return embedNotesOf(app, target, await transform(section), transform, [ ...chain, key ]);
+}
+
+/**
+ * Content of the whole note without front-matter, the section under a heading, or a block.
+ */
+async function getSection(app: App, file: TFile, subpath: string): Promise<string | undefined> {
+  const content = await app.vault.cachedRead(file);
+  if (subpath.length === 0) {
+    return content.replace(/^---[\s\S]+?---/, '').trim();
+  }
+
+  const cache = app.metadataCache.getFileCache(file);
+  if (subpath.startsWith('^')) {
+    const id = subpath.substring(1).toLowerCase();
+    const block = Object.values(cache?.blocks ?? {}).find(it => it.id.toLowerCase() === id);
+    if (!block) {
+      return undefined;
+    }
+    return content
+      .substring(block.position.start.offset, block.position.end.offset)
+      .replace(/\s*\^[\w-]+\s*$/, '')
+      .trim();
+  }
+
+  // nested headings like `Note#Heading#Sub Heading` are matched by the last one
+  const name = (subpath.split('#').pop() ?? '').trim().toLowerCase();
+  const headings = cache?.headings ?? [];
+  const headingIndex = headings.findIndex(it => it.heading.trim().toLowerCase() === name);
+  if (headingIndex < 0) {
+    return undefined;
+  }
+  const heading = headings[headingIndex];
+  const next = headings.slice(headingIndex + 1).find(it => it.level <= heading.level);
+  return content
+    .substring(heading.position.start.offset, next?.position.start.offset ?? content.length)
+    .trim();
+}
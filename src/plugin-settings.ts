@@ -5,6 +5,7 @@ import { isNil, isUndefined } from 'lodash-es';
 import { SafeAny } from './utils';
 import { PassCrypto } from './pass-crypto';
 import { WP_DEFAULT_PROFILE_NAME } from './consts';
+import { PublishQueueEntry } from './publish-queue';
 
 
 export const enum SettingsVersion {
@@ -23,11 +24,49 @@ export const enum MathJaxOutputType {
   SVG = 'svg'
 }
 
+export const enum OutputFormat {
+  HTML = 'html',
+  Gutenberg = 'gutenberg'
+}
+
 export const enum CommentConvertMode {
   Ignore = 'ignore',
   HTML = 'html'
 }
 
+/**
+ * How links to notes not published yet are rendered.
+ */
+export const enum UnpublishedLinkFallback {
+  /**
+   * Link text without link.
+   */
+  Text = 'text',
+
+  /**
+   * Link as it is written in the note.
+   */
+  Keep = 'keep',
+
+  /**
+   * Link text without link, and a notice of these links is shown.
+   */
+  Warn = 'warn'
+}
+
+/**
+ * Whether and how linked notes not published yet are published before the note.
+ */
+export const enum LinkedNotesPublishMode {
+  Off = 'off',
+  Draft = 'draft',
+
+  /**
+   * Same status as the note linking to them.
+   */
+  SameStatus = 'same'
+}
+
 export interface WordpressPluginSettings {
 
   version?: SettingsVersion;
@@ -59,6 +98,12 @@ export interface WordpressPluginSettings {
    */
   rememberLastSelectedCategories: boolean;
 
+  /**
+   * Create categories in front-matter not found on server,
+   * otherwise they are replaced by "Uncategorized".
+   */
+  createMissingCategories: boolean;
+
   /**
    * If WordPress edit confirm modal will be shown when published successfully.
    */
@@ -68,12 +113,45 @@ export interface WordpressPluginSettings {
 
   commentConvertMode: CommentConvertMode;
 
+  /**
+   * Post content format, plain HTML or Gutenberg block markup.
+   */
+  outputFormat: OutputFormat;
+
+  unpublishedLinkFallback: UnpublishedLinkFallback;
+
+  linkedNotesPublishMode: LinkedNotesPublishMode;
+
+  /**
+   * CSS classes of callouts by their types, `callout-{type}` is used for types not in it.
+   */
+  calloutClasses: Record<string, string>;
+
+  /**
+   * Inline default stylesheet of callouts into `style` attributes.
+   */
+  calloutInlineStyles: boolean;
+
+  enableFootnotes: boolean;
+
+  /**
+   * Render `==text==` as `<mark>`.
+   */
+  enableHighlights: boolean;
+
+  enableTaskLists: boolean;
+
   enableHtml: boolean;
 
   /**
    * Whether media links should be replaced after uploading to WordPress.
    */
   replaceMediaLinks: boolean;
+
+  /**
+   * Publishing failed by network problems, waiting for retrying.
+   */
+  publishQueue: PublishQueueEntry[];
 }
 
 export const DEFAULT_SETTINGS: WordpressPluginSettings = {
@@ -83,11 +161,37 @@ export const DEFAULT_SETTINGS: WordpressPluginSettings = {
   defaultPostStatus: PostStatus.Publish,
   defaultCommentStatus: CommentStatus.Open,
   rememberLastSelectedCategories: true,
+  createMissingCategories: false,
   showWordPressEditConfirm: false,
   mathJaxOutputType: MathJaxOutputType.SVG,
   commentConvertMode: CommentConvertMode.Ignore,
+  outputFormat: OutputFormat.HTML,
+  unpublishedLinkFallback: UnpublishedLinkFallback.Text,
+  linkedNotesPublishMode: LinkedNotesPublishMode.Off,
+  // aliases of Obsidian callout types
+  calloutClasses: {
+    summary: 'callout-abstract',
+    tldr: 'callout-abstract',
+    hint: 'callout-tip',
+    important: 'callout-tip',
+    check: 'callout-success',
+    done: 'callout-success',
+    help: 'callout-question',
+    faq: 'callout-question',
+    caution: 'callout-warning',
+    attention: 'callout-warning',
+    fail: 'callout-failure',
+    missing: 'callout-failure',
+    error: 'callout-danger',
+    cite: 'callout-quote',
+  },
+  calloutInlineStyles: true,
+  enableFootnotes: true,
+  enableHighlights: true,
+  enableTaskLists: true,
   enableHtml: false,
   replaceMediaLinks: false,
+  publishQueue: [],
 }
 
 export async function upgradeSettings(
@@ -0,0 +1,274 @@
+import { Notice, TFile } from 'obsidian';
+import WordpressPlugin from './main';
+import { WordPressClientReturnCode, WordPressPostParams } from './wp-client';
+import { getWordPressClient } from './wp-clients';
+import { isRetryableError } from './utils';
+import { omit } from 'lodash-es';
+
+
+/**
+ * Delay of the first retry, doubled on every failed attempt.
+ */
+const RETRY_BASE_DELAY = 30 * 1000;
+
+const RETRY_MAX_DELAY = 60 * 60 * 1000;
+
+/**
+ * Post parameters saved in plugin data.
+ *
+ * Post password is not saved but kept in memory, and note content is read again when retrying.
+ */
+export type QueuedPostParams = Omit<WordPressPostParams, 'password' | 'content' | 'datetime'> & {
+  /**
+   * Post date in ISO format.
+   */
+  datetime?: string;
+};
+
+export interface PublishQueueEntry {
+  id: string;
+
+  profileName: string;
+
+  /**
+   * Vault path of the note to be published.
+   */
+  filePath: string;
+
+  /**
+   * Whether the note is published to several profiles.
+   */
+  crossPosting?: boolean;
+
+  /**
+   * Post parameters chosen when publishing, front-matter and profile defaults are used if absent.
+   */
+  postParams?: QueuedPostParams;
+
+  /**
+   * Count of failed attempts.
+   */
+  attempts: number;
+
+  /**
+   * Timestamp in milliseconds of the next retry.
+   */
+  nextAttemptAt: number;
+
+  lastError?: string;
+
+  /**
+   * Retrying is stopped by an error which could not be fixed by retrying,
+   * the entry is kept to be retried manually or dropped.
+   */
+  failed?: boolean;
+
+  createdAt: number;
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), RETRY_MAX_DELAY);
+}
+
+function toQueuedPostParams(params: WordPressPostParams): QueuedPostParams {
+  return {
+    ...omit(params, 'password', 'content', 'datetime'),
+    datetime: params.datetime?.toISOString()
+  };
+}
+
+function fromQueuedPostParams(params: QueuedPostParams, password?: string): WordPressPostParams {
+  return {
+    ...params,
+    content: '',
+    datetime: params.datetime ? new Date(params.datetime) : undefined,
+    password
+  };
+}
+
+/**
+ * Publishing failed by network problems, saved in plugin data and retried
+ * with exponential backoff.
+ */
+export class PublishQueue {
+
+  private timer: number | undefined;
+
+  private processing = false;
+
+  /**
+   * Post passwords of entries by entry ID, which are not saved in plugin data.
+   */
+  private readonly passwords = new Map<string, string>();
+
+  constructor(
+    private readonly plugin: WordpressPlugin
+  ) { }
+
+  get entries(): PublishQueueEntry[] {
+    return this.plugin.settings.publishQueue;
+  }
+
+  /**
+   * Start retrying queued entries, should be called after settings loaded.
+   */
+  start(): void {
+    this.plugin.registerDomEvent(window, 'online', () => {
+      this.retryAll().then();
+    });
+    this.schedule();
+  }
+
+  stop(): void {
+    if (this.timer !== undefined) {
+      window.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Add a publishing into queue.
+   *
+   * A note could be queued only once for each profile, the existing entry will be replaced.
+   */
+  async enqueue(params: {
+    profileName: string,
+    file: TFile,
+    crossPosting?: boolean,
+    postParams?: WordPressPostParams,
+    error: string,
+  }): Promise<void> {
+    const { profileName, file, crossPosting, postParams, error } = params;
+    const existing = this.entries.find(it => it.profileName === profileName && it.filePath === file.path);
+    const attempts = (existing?.attempts ?? 0) + 1;
+    const entry: PublishQueueEntry = {
+      id: existing?.id ?? `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`,
+      profileName,
+      filePath: file.path,
+      crossPosting,
+      postParams: postParams ? toQueuedPostParams(postParams) : undefined,
+      attempts,
+      nextAttemptAt: Date.now() + getRetryDelay(attempts),
+      lastError: error,
+      createdAt: existing?.createdAt ?? Date.now()
+    };
+    if (postParams?.password) {
+      this.passwords.set(entry.id, postParams.password);
+    } else {
+      this.passwords.delete(entry.id);
+    }
+    this.plugin.settings.publishQueue = [
+      ...this.entries.filter(it => it.id !== entry.id),
+      entry
+    ];
+    await this.plugin.saveSettings();
+    this.schedule();
+  }
+
+  async remove(id: string): Promise<void> {
+    this.plugin.settings.publishQueue = this.entries.filter(it => it.id !== id);
+    this.passwords.delete(id);
+    await this.plugin.saveSettings();
+    this.schedule();
+  }
+
+  /**
+   * Retry an entry immediately, including a failed one.
+   */
+  async retry(id: string): Promise<void> {
+    const entry = this.entries.find(it => it.id === id);
+    if (entry) {
+      entry.failed = false;
+      entry.nextAttemptAt = Date.now();
+      await this.process();
+    }
+  }
+
+  /**
+   * Retry all entries not failed immediately.
+   */
+  async retryAll(): Promise<void> {
+    const now = Date.now();
+    this.getPendingEntries().forEach(entry => entry.nextAttemptAt = now);
+    await this.process();
+  }
+
+  private getPendingEntries(): PublishQueueEntry[] {
+    return this.entries.filter(it => !it.failed);
+  }
+
+  private schedule(): void {
+    this.stop();
+    const pendingEntries = this.getPendingEntries();
+    if (pendingEntries.length === 0) {
+      return;
+    }
+    const next = Math.min(...pendingEntries.map(it => it.nextAttemptAt));
+    this.timer = window.setTimeout(() => {
+      this.timer = undefined;
+      this.process().then();
+    }, Math.max(next - Date.now(), 0));
+  }
+
+  private async process(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      if (navigator.onLine) {
+        const now = Date.now();
+        const dueEntries = this.getPendingEntries().filter(it => it.nextAttemptAt <= now);
+        for (const entry of dueEntries) {
+          await this.publish(entry);
+        }
+      }
+    } finally {
+      this.processing = false;
+      this.schedule();
+    }
+  }
+
+  private async publish(entry: PublishQueueEntry): Promise<void> {
+    const t = this.plugin.i18n.t.bind(this.plugin.i18n);
+    const fail = async (error: string, retryable: boolean) => {
+      entry.attempts++;
+      entry.lastError = error;
+      if (retryable) {
+        entry.nextAttemptAt = Date.now() + getRetryDelay(entry.attempts);
+      } else {
+        entry.failed = true;
+      }
+      await this.plugin.saveSettings();
+    };
+
+    const file = this.plugin.app.vault.getAbstractFileByPath(entry.filePath);
+    if (!(file instanceof TFile)) {
+      return fail(t('error_queuedNoteNotFound', { path: entry.filePath }), false);
+    }
+    const profile = this.plugin.settings.profiles.find(it => it.name === entry.profileName);
+    if (!profile) {
+      return fail(t('error_noSuchProfile', { profileName: entry.profileName }), false);
+    }
+    const client = getWordPressClient(this.plugin, profile);
+    if (!client) {
+      return fail(t('error_noEndpoint'), false);
+    }
+    const result = await client.republish(file, {
+      crossPosting: entry.crossPosting,
+      postParams: entry.postParams
+        ? fromQueuedPostParams(entry.postParams, this.passwords.get(entry.id))
+        : undefined
+    });
+    if (result.code === WordPressClientReturnCode.OK) {
+      await this.remove(entry.id);
+      new Notice(t('message_queuedPublishSuccessfully', { path: entry.filePath }));
+    } else {
+      // no response if another publishing is in progress, which is retried later too
+      const retryable = result.error.code !== WordPressClientReturnCode.Cancelled
+        && (result.response === undefined || isRetryableError(result.response));
+      return fail(result.error.message, retryable);
+    }
+  }
+
+}
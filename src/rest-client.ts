@@ -55,6 +55,36 @@ export class RestClient {
     return response.json;
   }
 
+  async httpDelete(
+    path: string,
+    options?: {
+      headers: Record<string, string>
+    }
+  ): Promise<unknown> {
+    let realPath = path;
+    if (realPath.startsWith('/')) {
+      realPath = realPath.substring(1);
+    }
+
+    const endpoint = `${this.href}/${realPath}`;
+    const opts = {
+      headers: {},
+      ...options
+    };
+    console.log('REST DELETE', endpoint, opts);
+    const response = await requestUrl({
+      url: endpoint,
+      method: 'DELETE',
+      headers: {
+        'content-type': 'application/json',
+        'user-agent': 'obsidian.md',
+        ...opts.headers
+      }
+    });
+    console.log('DELETE response', response);
+    return response.json;
+  }
+
   async httpPost(
     path: string,
     body: SafeAny,
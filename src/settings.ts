@@ -3,7 +3,13 @@ import WordpressPlugin from './main';
 import { CommentStatus, PostStatus } from './wp-api';
 import { TranslateKey } from './i18n';
 import { WpProfileManageModal } from './wp-profile-manage-modal';
-import { CommentConvertMode, MathJaxOutputType } from './plugin-settings';
+import {
+  CommentConvertMode,
+  LinkedNotesPublishMode,
+  MathJaxOutputType,
+  OutputFormat,
+  UnpublishedLinkFallback
+} from './plugin-settings';
 import { WpProfile } from './wp-profile';
 import { setupMarkdownParser } from './utils';
 import { AppState } from './app-state';
@@ -125,6 +131,18 @@ export class WordpressSettingTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(containerEl)
+      .setName(t('settings_createMissingCategories'))
+      .setDesc(t('settings_createMissingCategoriesDesc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.createMissingCategories)
+          .onChange(async (value) => {
+            this.plugin.settings.createMissingCategories = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
     new Setting(containerEl)
       .setName(t('settings_showWordPressEditPageModal'))
       .setDesc(t('settings_showWordPressEditPageModalDesc'))
@@ -181,6 +199,138 @@ export class WordpressSettingTab extends PluginSettingTab {
       cls: 'setting-item-description'
     });
 
+    new Setting(containerEl)
+      .setName(t('settings_outputFormat'))
+      .setDesc(t('settings_outputFormatDesc'))
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption(OutputFormat.HTML, t('settings_outputFormatHTML'))
+          .addOption(OutputFormat.Gutenberg, t('settings_outputFormatGutenberg'))
+          .setValue(this.plugin.settings.outputFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.outputFormat = value as OutputFormat;
+            await this.plugin.saveSettings();
+
+            setupMarkdownParser(this.plugin.settings);
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(t('settings_unpublishedLinkFallback'))
+      .setDesc(t('settings_unpublishedLinkFallbackDesc'))
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption(UnpublishedLinkFallback.Text, t('settings_unpublishedLinkFallbackText'))
+          .addOption(UnpublishedLinkFallback.Keep, t('settings_unpublishedLinkFallbackKeep'))
+          .addOption(UnpublishedLinkFallback.Warn, t('settings_unpublishedLinkFallbackWarn'))
+          .setValue(this.plugin.settings.unpublishedLinkFallback)
+          .onChange(async (value) => {
+            this.plugin.settings.unpublishedLinkFallback = value as UnpublishedLinkFallback;
+            await this.plugin.saveSettings();
+
+            setupMarkdownParser(this.plugin.settings);
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(t('settings_linkedNotesPublishMode'))
+      .setDesc(t('settings_linkedNotesPublishModeDesc'))
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption(LinkedNotesPublishMode.Off, t('settings_linkedNotesPublishModeOff'))
+          .addOption(LinkedNotesPublishMode.Draft, t('settings_linkedNotesPublishModeDraft'))
+          .addOption(LinkedNotesPublishMode.SameStatus, t('settings_linkedNotesPublishModeSameStatus'))
+          .setValue(this.plugin.settings.linkedNotesPublishMode)
+          .onChange(async (value) => {
+            this.plugin.settings.linkedNotesPublishMode = value as LinkedNotesPublishMode;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName(t('settings_calloutInlineStyles'))
+      .setDesc(t('settings_calloutInlineStylesDesc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.calloutInlineStyles)
+          .onChange(async (value) => {
+            this.plugin.settings.calloutInlineStyles = value;
+            await this.plugin.saveSettings();
+
+            setupMarkdownParser(this.plugin.settings);
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings_calloutClasses'))
+      .setDesc(t('settings_calloutClassesDesc'))
+      .addTextArea((text) => {
+        text
+          .setPlaceholder('tip: callout-tip')
+          .setValue(Object.entries(this.plugin.settings.calloutClasses)
+            .map(([ type, className ]) => `${type}: ${className}`)
+            .join('\n'))
+          .onChange(async (value) => {
+            // one `type: class` per line, lines without class are ignored
+            const classes: Record<string, string> = {};
+            value.split('\n').forEach(line => {
+              const index = line.indexOf(':');
+              const type = line.substring(0, index).trim().toLowerCase();
+              const className = line.substring(index + 1).trim();
+              if (index > 0 && type.length > 0 && className.length > 0) {
+                classes[type] = className;
+              }
+            });
+            this.plugin.settings.calloutClasses = classes;
+            await this.plugin.saveSettings();
+
+            setupMarkdownParser(this.plugin.settings);
+          });
+        text.inputEl.rows = 6;
+      });
+
+    new Setting(containerEl)
+      .setName(t('settings_enableFootnotes'))
+      .setDesc(t('settings_enableFootnotesDesc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableFootnotes)
+          .onChange(async (value) => {
+            this.plugin.settings.enableFootnotes = value;
+            await this.plugin.saveSettings();
+
+            setupMarkdownParser(this.plugin.settings);
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings_enableHighlights'))
+      .setDesc(t('settings_enableHighlightsDesc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableHighlights)
+          .onChange(async (value) => {
+            this.plugin.settings.enableHighlights = value;
+            await this.plugin.saveSettings();
+
+            setupMarkdownParser(this.plugin.settings);
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings_enableTaskLists'))
+      .setDesc(t('settings_enableTaskListsDesc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableTaskLists)
+          .onChange(async (value) => {
+            this.plugin.settings.enableTaskLists = value;
+            await this.plugin.saveSettings();
+
+            setupMarkdownParser(this.plugin.settings);
+          }),
+      );
+
     new Setting(containerEl)
       .setName(t('settings_enableHtml'))
       .setDesc(t('settings_enableHtmlDesc'))
@@ -0,0 +1,94 @@
+import { App, getAllTags, TFile } from 'obsidian';
+import { TaxonomyMappingRule, TaxonomyMappingSource } from './wp-profile';
+import { uniq } from 'lodash-es';
+
+
+const CATEGORY_TAXONOMY = 'category';
+const TAG_TAXONOMY = 'post_tag';
+
+export interface MappedTaxonomies {
+  /**
+   * Category names or paths like `Tech/JavaScript`.
+   */
+  categories: string[];
+
+  tags: string[];
+
+  /**
+   * Term names of custom taxonomies, by taxonomy name.
+   */
+  terms: Record<string, string[]>;
+}
+
+/**
+ * Match path like value with the pattern.
+ *
+ * @return rest of path matched by `/*` of pattern, or empty string if matched without wildcard,
+ * `undefined` if not matched
+ */
+function matchPattern(value: string, pattern: string, ignoreCase: boolean): string | undefined {
+  const normalize = (path: string) => {
+    const trimmed = path.trim().replace(/^[#/]+|\/+$/g, '');
+    return ignoreCase ? trimmed.toLowerCase() : trimmed;
+  };
+  const wildcard = pattern.trim().endsWith('/*');
+  const prefix = normalize(wildcard ? pattern.trim().slice(0, -2) : pattern);
+  const normalizedValue = normalize(value);
+  if (wildcard) {
+    if (normalizedValue.startsWith(`${prefix}/`)) {
+      return value.trim().replace(/^[#/]+|\/+$/g, '').substring(prefix.length + 1);
+    }
+    return undefined;
+  }
+  if (prefix.length > 0 && (normalizedValue === prefix || normalizedValue.startsWith(`${prefix}/`))) {
+    return '';
+  }
+  return undefined;
+}
+
+/**
+ * Get categories, tags and terms of custom taxonomies of the note by folder and tag mapping rules.
+ */
+export function getMappedTaxonomies(app: App, file: TFile, rules: TaxonomyMappingRule[]): MappedTaxonomies {
+  const result: MappedTaxonomies = {
+    categories: [],
+    tags: [],
+    terms: {}
+  };
+  if (rules.length === 0) {
+    return result;
+  }
+
+  const folder = file.parent?.path ?? '';
+  const noteTags = getAllTags(app.metadataCache.getFileCache(file) ?? {}) ?? [];
+  rules.forEach(rule => {
+    const values = rule.source === TaxonomyMappingSource.Folder ? [ folder ] : noteTags;
+    // Obsidian tags are case-insensitive
+    const ignoreCase = rule.source === TaxonomyMappingSource.Tag;
+    values.forEach(value => {
+      const rest = matchPattern(value, rule.pattern, ignoreCase);
+      if (rest === undefined) {
+        return;
+      }
+      const term = rule.term.replace('*', rest).trim();
+      if (term.length === 0) {
+        return;
+      }
+      const taxonomy = rule.taxonomy.trim();
+      if (taxonomy === CATEGORY_TAXONOMY) {
+        result.categories.push(term);
+      } else if (taxonomy === TAG_TAXONOMY) {
+        result.tags.push(term);
+      } else {
+        result.terms[taxonomy] = [ ...(result.terms[taxonomy] ?? []), term ];
+      }
+    });
+  });
+
+  result.categories = uniq(result.categories);
+  result.tags = uniq(result.tags);
+  Object.keys(result.terms).forEach(taxonomy => {
+    result.terms[taxonomy] = uniq(result.terms[taxonomy]);
+  });
+  return result;
+}
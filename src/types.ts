@@ -7,6 +7,14 @@ export interface MarkdownItPlugin {
 
 export type MatterData = { [p: string]: SafeAny };
 
+/**
+ * Post of a cross-posted note, saved in `wp_sites` front-matter by profile name.
+ */
+export interface PublishedSite {
+  url: string;
+  id: string;
+}
+
 export interface Media {
   mimeType: string;
   fileName: string;
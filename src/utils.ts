@@ -1,15 +1,21 @@
 import { App, Notice, Setting, TFile } from 'obsidian';
 import { WpProfile } from './wp-profile';
-import { WordpressPluginSettings } from './plugin-settings';
+import { OutputFormat, WordpressPluginSettings } from './plugin-settings';
 import { MarkdownItMathJax3PluginInstance } from './markdown-it-mathjax3-plugin';
-import { WordPressClientResult, WordPressClientReturnCode, WordPressPostParams } from './wp-client';
+import { WordPressClient, WordPressClientResult, WordPressClientReturnCode, WordPressPostParams } from './wp-client';
 import { getWordPressClient } from './wp-clients';
 import WordpressPlugin from './main';
-import { isString } from 'lodash-es';
+import { cloneDeep, isNumber, isString, isUndefined, omitBy } from 'lodash-es';
 import { ERROR_NOTICE_TIMEOUT } from './consts';
 import { format } from 'date-fns';
 import { MatterData } from './types';
 import { MarkdownItCommentPluginInstance } from './markdown-it-comment-plugin';
+import { MarkdownItGutenbergPluginInstance } from './markdown-it-gutenberg-plugin';
+import { MarkdownItLinkPluginInstance } from './markdown-it-link-plugin';
+import { MarkdownItCalloutPluginInstance } from './markdown-it-callout-plugin';
+import { MarkdownItFootnotePluginInstance } from './markdown-it-footnote-plugin';
+import { MarkdownItHighlightPluginInstance } from './markdown-it-highlight-plugin';
+import { MarkdownItTaskListPluginInstance } from './markdown-it-task-list-plugin';
 
 export type SafeAny = any; // eslint-disable-line @typescript-eslint/no-explicit-any
 
@@ -29,9 +35,35 @@ export function isPromiseFulfilledResult<T>(obj: SafeAny): obj is PromiseFulfill
   return !!obj && obj.status === 'fulfilled' && obj.value;
 }
 
-export function setupMarkdownParser(settings: WordpressPluginSettings): void {
-  MarkdownItMathJax3PluginInstance.updateOutputType(settings.mathJaxOutputType);
-  MarkdownItCommentPluginInstance.updateConvertMode(settings.commentConvertMode);
+/**
+ * Settings with publishing defaults overridden by the profile.
+ */
+export function getProfileSettings(settings: WordpressPluginSettings, profile?: WpProfile): WordpressPluginSettings {
+  if (!profile) {
+    return settings;
+  }
+  return {
+    ...settings,
+    ...omitBy({
+      defaultPostStatus: profile.defaultPostStatus,
+      defaultCommentStatus: profile.defaultCommentStatus,
+      mathJaxOutputType: profile.mathJaxOutputType,
+      commentConvertMode: profile.commentConvertMode,
+    }, isUndefined)
+  };
+}
+
+export function setupMarkdownParser(settings: WordpressPluginSettings, profile?: WpProfile): void {
+  const { mathJaxOutputType, commentConvertMode } = getProfileSettings(settings, profile);
+  MarkdownItMathJax3PluginInstance.updateOutputType(mathJaxOutputType);
+  MarkdownItCommentPluginInstance.updateConvertMode(commentConvertMode);
+  MarkdownItGutenbergPluginInstance.updateEnabled(settings.outputFormat === OutputFormat.Gutenberg);
+  MarkdownItLinkPluginInstance.updateFallback(settings.unpublishedLinkFallback);
+  MarkdownItCalloutPluginInstance.updateClasses(settings.calloutClasses);
+  MarkdownItCalloutPluginInstance.updateInlineStyles(settings.calloutInlineStyles);
+  MarkdownItFootnotePluginInstance.updateEnabled(settings.enableFootnotes);
+  MarkdownItHighlightPluginInstance.updateEnabled(settings.enableHighlights);
+  MarkdownItTaskListPluginInstance.updateEnabled(settings.enableTaskLists);
 }
 
 
@@ -91,6 +123,33 @@ export function doClientPublish(
   }
 }
 
+export function doClientAction(
+  plugin: WordpressPlugin,
+  profile: WpProfile,
+  action: (client: WordPressClient) => Promise<unknown>
+): void {
+  const client = getWordPressClient(plugin, profile);
+  if (client) {
+    action(client).then();
+  }
+}
+
+/**
+ * Whether the error is caused by network problems or server being unavailable,
+ * which could be fixed by retrying later.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!navigator.onLine) {
+    return true;
+  }
+  const status = (error as SafeAny)?.status;
+  if (isNumber(status)) {
+    return status >= 500 || status === 429;
+  }
+  // requests rejected without a response, like net::ERR_INTERNET_DISCONNECTED
+  return error instanceof Error && /net::ERR_|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND/.test(error.message);
+}
+
 export function getBoundary(): string {
   return `----obsidianBoundary${format(new Date(), 'yyyyMMddHHmmss')}`;
 }
@@ -114,6 +173,11 @@ export function showError<T>(error: unknown): WordPressClientResult<T> {
   };
 }
 
+/**
+ * Read content and front-matter of the note.
+ *
+ * Front-matter is a copy, so it could be changed without touching metadata cache.
+ */
 export async function processFile(file: TFile, app: App): Promise<{ content: string, matter: MatterData }> {
   let fm = app.metadataCache.getFileCache(file)?.frontmatter;
   if (!fm) {
@@ -124,6 +188,17 @@ export async function processFile(file: TFile, app: App): Promise<{ content: str
   const raw = await app.vault.read(file);
   return {
     content: raw.replace(/^---[\s\S]+?---/, '').trim(),
-    matter: fm ?? {}
+    matter: cloneDeep(fm ?? {})
   };
 }
+
+/**
+ * SHA-256 hex digest of the content, ignoring line ending and surrounding whitespace differences.
+ */
+export async function hashContent(content: string): Promise<string> {
+  const normalized = content.replace(/\r\n/g, '\n').trim();
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized));
+  return Array.from(new Uint8Array(digest))
+    .map(b => `0${b.toString(16)}`.slice(-2))
+    .join('');
+}
@@ -2,7 +2,8 @@ export const enum PostStatus {
   Draft = 'draft',
   Publish = 'publish',
   Private = 'private',
-  Future = 'future'
+  Future = 'future',
+  Trash = 'trash'
 }
 
 export const enum CommentStatus {
@@ -10,12 +11,93 @@ export const enum CommentStatus {
   Closed = 'closed'
 }
 
+export const enum PingStatus {
+  Open = 'open',
+  Closed = 'closed'
+}
+
 export const enum PostTypeConst {
   Post = 'post',
   Page = 'page',
 }
 export type PostType = string;
 
+/**
+ * Post type with what it supports, returned by remote server.
+ */
+export interface PostTypeInfo {
+  name: PostType;
+
+  /**
+   * Display name of the post type.
+   */
+  label: string;
+
+  /**
+   * Base path of REST API endpoints, like `posts` of 'post'.
+   */
+  restBase: string;
+
+  /**
+   * Supported features, like 'title', 'editor', 'excerpt', 'thumbnail', 'comments' and 'trackbacks'.
+   */
+  supports: string[];
+
+  /**
+   * Taxonomies of the post type, like 'category' and 'post_tag'.
+   */
+  taxonomies: string[];
+}
+
+/**
+ * Taxonomy returned by remote server.
+ */
+export interface TaxonomyInfo {
+  name: string;
+
+  /**
+   * Display name of the taxonomy.
+   */
+  label: string;
+
+  /**
+   * Base path of REST API endpoints, like `categories` of 'category'.
+   */
+  restBase: string;
+
+  hierarchical: boolean;
+}
+
+/**
+ * Post type info used if server does not return it, following WordPress defaults.
+ */
+export function getDefaultPostTypeInfo(postType: PostType): PostTypeInfo {
+  if (postType === PostTypeConst.Post) {
+    return {
+      name: postType,
+      label: postType,
+      restBase: 'posts',
+      supports: [ 'title', 'editor', 'excerpt', 'thumbnail', 'comments', 'trackbacks' ],
+      taxonomies: [ 'category', 'post_tag' ]
+    };
+  } else if (postType === PostTypeConst.Page) {
+    return {
+      name: postType,
+      label: postType,
+      restBase: 'pages',
+      supports: [ 'title', 'editor', 'thumbnail', 'comments' ],
+      taxonomies: []
+    };
+  }
+  return {
+    name: postType,
+    label: postType,
+    restBase: postType,
+    supports: [ 'title', 'editor' ],
+    taxonomies: []
+  };
+}
+
 export interface Term {
   id: string;
   name: string;
@@ -0,0 +1,89 @@
+import { Setting } from 'obsidian';
+import WordpressPlugin from './main';
+import { AbstractModal } from './abstract-modal';
+import { WordPressBatchPublishItem, WordPressBatchPublishStatus } from './wp-client';
+import { TranslateKey } from './i18n';
+
+
+const STATUS_KEYS: Record<WordPressBatchPublishStatus, TranslateKey> = {
+  [WordPressBatchPublishStatus.Created]: 'batchReportModal_created',
+  [WordPressBatchPublishStatus.Updated]: 'batchReportModal_updated',
+  [WordPressBatchPublishStatus.Skipped]: 'batchReportModal_skipped',
+  [WordPressBatchPublishStatus.Failed]: 'batchReportModal_failed',
+};
+
+export function openBatchReportModal(
+  plugin: WordpressPlugin,
+  items: WordPressBatchPublishItem[]
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const modal = new WpBatchReportModal(plugin, items, () => {
+      resolve();
+    });
+    modal.open();
+  });
+}
+
+/**
+ * Per-note report of batch publishing.
+ */
+class WpBatchReportModal extends AbstractModal {
+
+  constructor(
+    readonly plugin: WordpressPlugin,
+    private readonly items: WordPressBatchPublishItem[],
+    private readonly onClosed: () => void
+  ) {
+    super(plugin);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    this.createHeader(this.t('batchReportModal_title'));
+
+    const count = (status: WordPressBatchPublishStatus): string => {
+      return String(this.items.filter(it => it.status === status).length);
+    };
+    new Setting(contentEl)
+      .setName(this.t('batchReportModal_summary', {
+        created: count(WordPressBatchPublishStatus.Created),
+        updated: count(WordPressBatchPublishStatus.Updated),
+        skipped: count(WordPressBatchPublishStatus.Skipped),
+        failed: count(WordPressBatchPublishStatus.Failed),
+      }));
+
+    this.items.forEach(item => {
+      const status = this.t(STATUS_KEYS[item.status]);
+      const setting = new Setting(contentEl)
+        .setName(`${item.profileName} / ${item.file.path}`)
+        .setDesc(item.message ? `${status}: ${item.message}` : status);
+      setting.settingEl.addClass(`wp-batch-${item.status}`);
+      const postUrl = item.postUrl;
+      if (postUrl) {
+        setting.addExtraButton(button => button
+          .setIcon('external-link')
+          .setTooltip(this.t('batchReportModal_open'))
+          .onClick(() => {
+            window.open(postUrl);
+          }));
+      }
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText(this.t('batchReportModal_close'))
+        .setCta()
+        .onClick(() => {
+          this.close();
+        })
+      );
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.onClosed();
+  }
+
+}
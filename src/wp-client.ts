@@ -1,10 +1,15 @@
-import { CommentStatus, PostStatus, PostType } from './wp-api';
+import { CommentStatus, PingStatus, PostStatus, PostType } from './wp-api';
 import { SafeAny } from './utils';
+import { TFile } from 'obsidian';
 
 export enum WordPressClientReturnCode {
   OK,
   Error,
   ServerInternalError,
+  /**
+   * Operation is cancelled by user.
+   */
+  Cancelled,
 }
 
 interface _wpClientResult {
@@ -71,6 +76,45 @@ export interface WordPressPostParams {
   profileName?: string;
 
   datetime?: Date;
+
+  excerpt?: string;
+
+  /**
+   * URL slug of the post.
+   */
+  slug?: string;
+
+  /**
+   * Password to protect the post.
+   */
+  password?: string;
+
+  pingStatus?: PingStatus;
+
+  /**
+   * Whether the post is sticky on front page, only 'post' supports it.
+   */
+  sticky?: boolean;
+
+  /**
+   * Term names of custom taxonomies, by taxonomy name.
+   */
+  terms?: Record<string, string[]>;
+
+  /**
+   * Term IDs resolved from `terms`, by taxonomy name.
+   */
+  termIds?: Record<string, string[]>;
+
+  /**
+   * Featured image, a vault image or an image URL.
+   */
+  featuredImage?: string;
+
+  /**
+   * Attachment ID of the uploaded featured image.
+   */
+  featuredMediaId?: string;
 }
 
 export interface WordPressPublishParams extends WordPressAuthParams {
@@ -86,6 +130,97 @@ export interface WordPressPublishResult {
 
 export interface WordPressMediaUploadResult {
   url: string;
+
+  /**
+   * Attachment ID of uploaded media.
+   */
+  id?: string;
+}
+
+export interface WordPressPost {
+  postId: string;
+  postType: PostType;
+  status: PostStatus;
+  title: string;
+
+  /**
+   * Post content in HTML.
+   */
+  content: string;
+
+  /**
+   * Category IDs.
+   */
+  categories: number[];
+
+  /**
+   * Tag names.
+   */
+  tags: string[];
+
+  url?: string;
+
+  /**
+   * Post content as stored in database, if server returns.
+   */
+  rawContent?: string;
+
+  /**
+   * Last modified time in ISO format (GMT).
+   */
+  modified?: string;
+}
+
+export interface WordPressRevision {
+  revisionId: string;
+
+  /**
+   * Author display name, or author ID if name is not available.
+   */
+  author: string;
+
+  date: Date;
+  title: string;
+
+  /**
+   * Revision content in HTML.
+   */
+  content: string;
+}
+
+export interface WordPressPostsQuery {
+  postType: PostType;
+
+  /**
+   * Page number, starts from 1.
+   */
+  page: number;
+
+  perPage: number;
+}
+
+export interface WordPressImportResult {
+  imported: number;
+  skipped: number;
+  failed: number;
+}
+
+export enum WordPressBatchPublishStatus {
+  Created = 'created',
+  Updated = 'updated',
+  Skipped = 'skipped',
+  Failed = 'failed'
+}
+
+export interface WordPressBatchPublishItem {
+  file: TFile;
+  profileName: string;
+  status: WordPressBatchPublishStatus;
+  /**
+   * Reason of skipped or failed.
+   */
+  message?: string;
+  postUrl?: string;
 }
 
 export interface WordPressClient {
@@ -100,6 +235,86 @@ export interface WordPressClient {
    */
   publishPost(defaultPostParams?: WordPressPostParams): Promise<WordPressClientResult<WordPressPublishResult>>;
 
+  /**
+   * Publish notes without opening them.
+   *
+   * Post parameters are read from front-matter and profile defaults, no publish modal
+   * will be shown. Notes linked to another profile are skipped, unless cross-posting.
+   *
+   * @param files notes to be published
+   * @param options.crossPosting publish notes linked to another profile as mirror posts,
+   * which are tracked in `wp_sites` front-matter
+   * @param options.linkedProfileName profile the notes are linked to in cross-posting,
+   * which might not be in metadata cache yet if it is published just now
+   */
+  publishFiles(
+    files: TFile[],
+    options?: {
+      crossPosting?: boolean,
+      linkedProfileName?: string
+    }
+  ): Promise<WordPressClientResult<WordPressBatchPublishItem[]>>;
+
+  /**
+   * Publish a note again from the publish queue, no modals or notices will be shown.
+   *
+   * Post parameters are read from front-matter and profile defaults like batch publishing,
+   * if not given. The error thrown is kept as `response` of the error result.
+   *
+   * @param file note to be published
+   * @param options.crossPosting the note was queued by cross-posting
+   * @param options.postParams post parameters chosen when the note was queued
+   */
+  republish(
+    file: TFile,
+    options?: {
+      crossPosting?: boolean,
+      postParams?: WordPressPostParams
+    }
+  ): Promise<WordPressClientResult<WordPressPublishResult>>;
+
+  /**
+   * Pull the post linked by `wp_url` in front-matter back into the current note.
+   *
+   * Note content and `wp_*` front-matter will be overwritten by the remote post.
+   */
+  pullPost(): Promise<WordPressClientResult<WordPressPost>>;
+
+  /**
+   * Show differences between the current note rendered locally and the live post.
+   *
+   * The note will be published if user confirms in diff modal.
+   */
+  comparePost(): Promise<WordPressClientResult<WordPressPost>>;
+
+  /**
+   * Browse revisions of the post linked to the current note,
+   * and restore one on server or pull it into the note.
+   */
+  browseRevisions(): Promise<WordPressClientResult<WordPressRevision[]>>;
+
+  /**
+   * Move the post linked to the current note to trash.
+   */
+  trashCurrentPost(): Promise<WordPressClientResult<boolean>>;
+
+  /**
+   * Restore the trashed post linked to the current note.
+   */
+  restoreCurrentPost(): Promise<WordPressClientResult<boolean>>;
+
+  /**
+   * Delete the post linked to the current note permanently, and unlink the note.
+   */
+  deleteCurrentPost(): Promise<WordPressClientResult<boolean>>;
+
+  /**
+   * Import all posts and pages of this profile into a vault folder, one note per post.
+   *
+   * Posts which have been linked to a note already will be skipped.
+   */
+  importPosts(): Promise<WordPressClientResult<WordPressImportResult>>;
+
   /**
    * Checks if the login certificate is OK.
    * @param certificate
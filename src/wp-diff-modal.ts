@@ -0,0 +1,161 @@
+import { Setting } from 'obsidian';
+import WordpressPlugin from './main';
+import { AbstractModal } from './abstract-modal';
+import { diffArrays } from 'diff';
+
+
+const enum DiffMode {
+  HTML = 'html',
+  Text = 'text'
+}
+
+const BLOCK_END_REGEX = /(<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre|table|thead|tbody|tr|figure|div|details|aside)>|<br\s*\/?>|<hr\s*\/?>|<!--[\s\S]*?-->)/gi;
+
+/**
+ * Split HTML into block level lines, so that diff is not affected by formatting.
+ */
+function toDiffLines(html: string, mode: DiffMode): string[] {
+  const lines = html
+    .replace(BLOCK_END_REGEX, '$1\n')
+    .split('\n')
+    .map(line => line.trim());
+  if (mode === DiffMode.Text) {
+    // decode HTML entities
+    const textArea = document.createElement('textarea');
+    return lines
+      .map(line => {
+        textArea.innerHTML = line.replace(/<[^>]+>/g, '');
+        return textArea.value.trim();
+      })
+      .filter(line => line.length > 0);
+  }
+  return lines.filter(line => line.length > 0);
+}
+
+export function openDiffModal(
+  plugin: WordpressPlugin,
+  contents: {
+    remote: string;
+    local: string;
+  }
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const modal = new WpDiffModal(plugin, contents, () => {
+      resolve();
+    });
+    modal.open();
+  });
+}
+
+/**
+ * Side-by-side diff between the live post and local rendered note.
+ */
+class WpDiffModal extends AbstractModal {
+
+  private mode = DiffMode.HTML;
+
+  constructor(
+    readonly plugin: WordpressPlugin,
+    private readonly contents: {
+      remote: string;
+      local: string;
+    },
+    private readonly onPublish: () => void
+  ) {
+    super(plugin);
+  }
+
+  onOpen() {
+    this.modalEl.addClass('wp-diff-modal');
+    this.display();
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private display(): void {
+    const { contentEl } = this;
+
+    contentEl.empty();
+
+    this.createHeader(this.t('diffModal_title'));
+
+    new Setting(contentEl)
+      .setName(this.t('diffModal_mode'))
+      .addDropdown((dropdown) => {
+        dropdown
+          .addOption(DiffMode.HTML, this.t('diffModal_modeHtml'))
+          .addOption(DiffMode.Text, this.t('diffModal_modeText'))
+          .setValue(this.mode)
+          .onChange((value) => {
+            this.mode = value as DiffMode;
+            this.display();
+          });
+      });
+
+    const parts = diffArrays(
+      toDiffLines(this.contents.remote, this.mode),
+      toDiffLines(this.contents.local, this.mode)
+    );
+    const changed = parts.some(part => part.added || part.removed);
+    if (!changed) {
+      new Setting(contentEl)
+        .setName(this.t('diffModal_noChanges'));
+    }
+
+    const table = contentEl.createEl('table', { cls: 'wp-diff-table' });
+    const header = table.createEl('tr');
+    header.createEl('th', { text: this.t('diffModal_remote') });
+    header.createEl('th', { text: this.t('diffModal_local') });
+
+    const addRow = (remote: string | undefined, local: string | undefined, changed = false) => {
+      const row = table.createEl('tr');
+      row.createEl('td', {
+        text: remote ?? '',
+        cls: changed && remote !== undefined ? 'wp-diff-removed' : undefined
+      });
+      row.createEl('td', {
+        text: local ?? '',
+        cls: changed && local !== undefined ? 'wp-diff-added' : undefined
+      });
+    };
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i];
+      if (part.removed) {
+        // pair removed lines with following added lines as modifications
+        const next = parts[i + 1];
+        const added = next?.added ? next.value : [];
+        const count = Math.max(part.value.length, added.length);
+        for (let j = 0; j < count; j++) {
+          addRow(part.value[j], added[j], true);
+        }
+        if (next?.added) {
+          i++;
+        }
+      } else if (part.added) {
+        part.value.forEach(line => addRow(undefined, line, true));
+      } else {
+        part.value.forEach(line => addRow(line, line));
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText(this.t('diffModal_cancel'))
+        .onClick(() => {
+          this.close();
+        })
+      )
+      .addButton(button => button
+        .setButtonText(this.t('diffModal_publishButtonText'))
+        .setCta()
+        .onClick(() => {
+          this.close();
+          this.onPublish();
+        })
+      );
+  }
+
+}
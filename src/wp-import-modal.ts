@@ -0,0 +1,107 @@
+import { normalizePath, Setting } from 'obsidian';
+import WordpressPlugin from './main';
+import { AbstractModal } from './abstract-modal';
+import { PostType, PostTypeConst } from './wp-api';
+import { WpProfile } from './wp-profile';
+import { showError } from './utils';
+
+
+export interface WpImportOptions {
+  /**
+   * Vault folder which imported notes will be written into.
+   */
+  folder: string;
+
+  postTypes: PostType[];
+}
+
+export function openImportModal(
+  plugin: WordpressPlugin,
+  profile: WpProfile
+): Promise<WpImportOptions> {
+  return new Promise((resolve, reject) => {
+    const modal = new WpImportModal(plugin, profile, (options) => {
+      resolve(options);
+    });
+    modal.open();
+  });
+}
+
+/**
+ * WordPress import modal.
+ */
+class WpImportModal extends AbstractModal {
+
+  constructor(
+    readonly plugin: WordpressPlugin,
+    private readonly profile: WpProfile,
+    private readonly onSubmit: (options: WpImportOptions) => void
+  ) {
+    super(plugin);
+  }
+
+  onOpen() {
+    const options: WpImportOptions = {
+      folder: `WordPress/${this.profile.name}`,
+      postTypes: [ PostTypeConst.Post, PostTypeConst.Page ]
+    };
+    const togglePostType = (postType: PostType, checked: boolean) => {
+      options.postTypes = options.postTypes.filter(it => it !== postType);
+      if (checked) {
+        options.postTypes.push(postType);
+      }
+    };
+
+    this.createHeader(this.t('importModal_title'));
+
+    const { contentEl } = this;
+
+    new Setting(contentEl)
+      .setName(this.t('importModal_folder'))
+      .setDesc(this.t('importModal_folderDesc'))
+      .addText(text => text
+        .setValue(options.folder)
+        .onChange((value) => {
+          options.folder = value;
+        }));
+    new Setting(contentEl)
+      .setName(this.t('importModal_importPosts'))
+      .addToggle(toggle => toggle
+        .setValue(true)
+        .onChange((value) => {
+          togglePostType(PostTypeConst.Post, value);
+        }));
+    new Setting(contentEl)
+      .setName(this.t('importModal_importPages'))
+      .addToggle(toggle => toggle
+        .setValue(true)
+        .onChange((value) => {
+          togglePostType(PostTypeConst.Page, value);
+        }));
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText(this.t('importModal_importButtonText'))
+        .setCta()
+        .onClick(() => {
+          const folder = normalizePath(options.folder.trim());
+          if (folder.length === 0 || folder === '/') {
+            showError(this.t('error_noImportFolder'));
+          } else if (options.postTypes.length === 0) {
+            showError(this.t('error_noImportPostType'));
+          } else {
+            this.onSubmit({
+              ...options,
+              folder
+            });
+            this.close();
+          }
+        })
+      );
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+}
@@ -1,6 +1,7 @@
+import { Setting } from 'obsidian';
 import WordpressPlugin from './main';
 import { WpProfile } from './wp-profile';
-import { rendererProfile } from './utils';
+import { rendererProfile, showError } from './utils';
 import { AbstractModal } from './abstract-modal';
 
 
@@ -15,6 +16,18 @@ export function openProfileChooserModal(
   });
 }
 
+export function openProfilesChooserModal(
+  plugin: WordpressPlugin,
+  selected: WpProfile[]
+): Promise<WpProfile[]> {
+  return new Promise<WpProfile[]>((resolve, reject) => {
+    const modal = new WpProfilesChooserModal(plugin, selected, (profiles) => {
+      resolve(profiles);
+    });
+    modal.open();
+  });
+}
+
 /**
  * WordPress profiles chooser modal.
  */
@@ -60,3 +73,60 @@ class WpProfileChooserModal extends AbstractModal {
   }
 
 }
+
+/**
+ * Choose several WordPress profiles, used in cross-posting.
+ */
+class WpProfilesChooserModal extends AbstractModal {
+
+  private readonly selected: Set<WpProfile>;
+
+  constructor(
+    readonly plugin: WordpressPlugin,
+    selected: WpProfile[],
+    private readonly onChoose: (profiles: WpProfile[]) => void
+  ) {
+    super(plugin);
+
+    this.selected = new Set(selected);
+  }
+
+  onOpen() {
+    this.createHeader(this.t('profilesChooserModal_title'));
+
+    const { contentEl } = this;
+    const profiles = this.plugin.settings.profiles;
+    profiles.forEach((profile) => {
+      rendererProfile(profile, contentEl)
+        .addToggle(toggle => toggle
+          .setValue(this.selected.has(profile))
+          .onChange((value) => {
+            if (value) {
+              this.selected.add(profile);
+            } else {
+              this.selected.delete(profile);
+            }
+          }));
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText(this.t('profilesChooserModal_publishButtonText'))
+        .setCta()
+        .onClick(() => {
+          if (this.selected.size === 0) {
+            showError(this.t('error_noProfileSelected'));
+          } else {
+            this.onChoose(profiles.filter(it => this.selected.has(it)));
+            this.close();
+          }
+        })
+      );
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+}
@@ -1,12 +1,13 @@
 import { Notice, Setting } from 'obsidian';
 import WordpressPlugin from './main';
-import { WpProfile } from './wp-profile';
+import { TaxonomyMappingSource, WpProfile } from './wp-profile';
 import { EventType, WP_OAUTH2_REDIRECT_URI } from './consts';
 import { WordPressClientReturnCode } from './wp-client';
 import { generateCodeVerifier, OAuth2Client } from './oauth2-client';
 import { AppState } from './app-state';
 import { isValidUrl, showError } from './utils';
-import { ApiType } from './plugin-settings';
+import { ApiType, CommentConvertMode, MathJaxOutputType } from './plugin-settings';
+import { CommentStatus, PostStatus } from './wp-api';
 import { AbstractModal } from './abstract-modal';
 
 
@@ -62,6 +63,7 @@ class WpProfileModal extends AbstractModal {
     super(plugin);
 
     this.profileData = Object.assign({}, profile);
+    this.profileData.taxonomyMappings = (profile.taxonomyMappings ?? []).map(it => ({ ...it }));
     this.tokenGotRef = AppState.events.on(EventType.OAUTH2_TOKEN_GOT, async token => {
       this.profileData.wpComOAuth2Token = token;
       if (atIndex >= 0) {
@@ -239,6 +241,94 @@ class WpProfileModal extends AbstractModal {
           })
         );
 
+      // empty value means the global setting is used
+      const addOverride = <K extends 'defaultPostStatus' | 'defaultCommentStatus' | 'mathJaxOutputType' | 'commentConvertMode'>(
+        key: K,
+        name: string,
+        options: Record<string, string>
+      ) => {
+        new Setting(content)
+          .setName(name)
+          .setDesc(this.t('profileModal_overrideDesc'))
+          .addDropdown(dropdown => dropdown
+            .addOption('', this.t('profileModal_useGlobalSetting'))
+            .addOptions(options)
+            .setValue(this.profileData[key] ?? '')
+            .onChange((value) => {
+              this.profileData[key] = (value === '' ? undefined : value) as WpProfile[K];
+            }));
+      };
+      addOverride('defaultPostStatus', this.t('settings_defaultPostStatus'), {
+        [PostStatus.Draft]: this.t('settings_defaultPostStatusDraft'),
+        [PostStatus.Publish]: this.t('settings_defaultPostStatusPublish'),
+        [PostStatus.Private]: this.t('settings_defaultPostStatusPrivate'),
+      });
+      addOverride('defaultCommentStatus', this.t('settings_defaultPostComment'), {
+        [CommentStatus.Open]: this.t('settings_defaultPostCommentOpen'),
+        [CommentStatus.Closed]: this.t('settings_defaultPostCommentClosed'),
+      });
+      addOverride('mathJaxOutputType', this.t('settings_mathJaxOutputType'), {
+        [MathJaxOutputType.TeX]: this.t('settings_mathJaxOutputTypeTeX'),
+        [MathJaxOutputType.SVG]: this.t('settings_mathJaxOutputTypeSVG'),
+      });
+      addOverride('commentConvertMode', this.t('settings_commentConvertMode'), {
+        [CommentConvertMode.Ignore]: this.t('settings_commentConvertModeIgnore'),
+        [CommentConvertMode.HTML]: this.t('settings_commentConvertModeHTML'),
+      });
+
+      const mappings = this.profileData.taxonomyMappings ?? [];
+      new Setting(content)
+        .setName(this.t('profileModal_taxonomyMappings'))
+        .setDesc(this.t('profileModal_taxonomyMappingsDesc'))
+        .addButton(button => button
+          .setButtonText(this.t('profileModal_addTaxonomyMapping'))
+          .onClick(() => {
+            mappings.push({
+              source: TaxonomyMappingSource.Folder,
+              pattern: '',
+              taxonomy: 'category',
+              term: ''
+            });
+            this.profileData.taxonomyMappings = mappings;
+            renderProfile();
+          }));
+      mappings.forEach((rule, index) => {
+        new Setting(content)
+          .setClass('wp-taxonomy-mapping')
+          .addDropdown(dropdown => dropdown
+            .addOption(TaxonomyMappingSource.Folder, this.t('profileModal_taxonomyMappingFolder'))
+            .addOption(TaxonomyMappingSource.Tag, this.t('profileModal_taxonomyMappingTag'))
+            .setValue(rule.source)
+            .onChange((value) => {
+              rule.source = value as TaxonomyMappingSource;
+            }))
+          .addText(text => text
+            .setPlaceholder(this.t('profileModal_taxonomyMappingPattern'))
+            .setValue(rule.pattern)
+            .onChange((value) => {
+              rule.pattern = value;
+            }))
+          .addText(text => text
+            .setPlaceholder(this.t('profileModal_taxonomyMappingTaxonomy'))
+            .setValue(rule.taxonomy)
+            .onChange((value) => {
+              rule.taxonomy = value;
+            }))
+          .addText(text => text
+            .setPlaceholder(this.t('profileModal_taxonomyMappingTerm'))
+            .setValue(rule.term)
+            .onChange((value) => {
+              rule.term = value;
+            }))
+          .addExtraButton(button => button
+            .setIcon('trash')
+            .setTooltip(this.t('profileModal_removeTaxonomyMapping'))
+            .onClick(() => {
+              mappings.splice(index, 1);
+              renderProfile();
+            }));
+      });
+
       new Setting(content)
         .addButton(button => button
           .setButtonText(this.t('profileModal_Save'))
@@ -253,6 +343,9 @@ class WpProfileModal extends AbstractModal {
             } else if (this.profileData.savePassword && !this.profileData.password) {
               showError(this.t('error_noPassword'));
             } else {
+              // incomplete rules are dropped
+              this.profileData.taxonomyMappings = mappings
+                .filter(it => it.pattern.trim().length > 0 && it.taxonomy.trim().length > 0 && it.term.trim().length > 0);
               this.onSubmit(this.profileData, this.atIndex);
               this.close();
             }
@@ -1,6 +1,35 @@
 import { WordPressOAuth2Token } from './oauth2-client';
-import { ApiType } from './plugin-settings';
-import { PostType } from './wp-api';
+import { ApiType, CommentConvertMode, MathJaxOutputType } from './plugin-settings';
+import { CommentStatus, PostStatus, PostType } from './wp-api';
+
+export const enum TaxonomyMappingSource {
+  Folder = 'folder',
+  Tag = 'tag',
+}
+
+/**
+ * Rule to assign a term to notes in a folder or with a tag.
+ */
+export interface TaxonomyMappingRule {
+  source: TaxonomyMappingSource;
+
+  /**
+   * Folder path like `Blog/Recipes`, or tag without `#` like `topic/ai`.
+   * Sub folders and nested tags are matched too.
+   * If it ends with `/*`, the rest of path is kept to be used in `term`.
+   */
+  pattern: string;
+
+  /**
+   * Taxonomy name, like 'category', 'post_tag' or custom ones.
+   */
+  taxonomy: string;
+
+  /**
+   * Term name, `*` is replaced by the rest of path matched by `/*`.
+   */
+  term: string;
+}
 
 export interface WpProfile {
 
@@ -68,4 +97,21 @@ export interface WpProfile {
    * Can be either category IDs (legacy) or category names (new format).
    */
   lastSelectedCategories: number[] | string[];
+
+  /**
+   * Rules to assign categories, tags and terms of custom taxonomies
+   * to notes without them in front-matter.
+   */
+  taxonomyMappings?: TaxonomyMappingRule[];
+
+  /**
+   * Overrides of global publishing settings, global ones are used if undefined.
+   */
+  defaultPostStatus?: PostStatus;
+
+  defaultCommentStatus?: CommentStatus;
+
+  mathJaxOutputType?: MathJaxOutputType;
+
+  commentConvertMode?: CommentConvertMode;
 }
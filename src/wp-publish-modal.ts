@@ -1,16 +1,27 @@
 import { Setting } from 'obsidian';
 import WordpressPlugin from './main';
 import { WordPressPostParams } from './wp-client';
-import { CommentStatus, PostStatus, PostType, PostTypeConst, Term } from './wp-api';
-import { toNumber } from 'lodash-es';
+import {
+  CommentStatus,
+  getDefaultPostTypeInfo,
+  PingStatus,
+  PostStatus,
+  PostType,
+  PostTypeConst,
+  PostTypeInfo,
+  Term
+} from './wp-api';
+import { toNumber, uniq } from 'lodash-es';
 import { MatterData } from './types';
 import { ConfirmCode, openConfirmModal } from './confirm-modal';
 import { AbstractModal } from './abstract-modal';
 import IMask, { DynamicMaskType, InputMask } from 'imask';
-import { SafeAny } from './utils';
+import { getProfileSettings, SafeAny } from './utils';
 import { format, parse } from 'date-fns';
 import { DropdownComponent, ButtonComponent } from 'obsidian';
 import { showError } from './utils';
+import { openImageSuggestModal } from './image-suggest-modal';
+import { WpProfile } from './wp-profile';
 
 
 /**
@@ -20,31 +31,55 @@ export class WpPublishModal extends AbstractModal {
 
   private dateInputMask: InputMask<DynamicMaskType> | null = null;
 
+  private categoryFilter = '';
+
   constructor(
     readonly plugin: WordpressPlugin,
     private readonly categories: {
       items: Term[],
-      selected: number[]
+      selected: number[],
+      create: (name: string, parentId?: string) => Promise<Term>
     },
     private readonly postTypes: {
-      items: PostType[],
+      items: PostTypeInfo[],
       selected: PostType
     },
+    private readonly tags: {
+      selected: string[],
+
+      /**
+       * Tag names on server for autocompletion.
+       */
+      suggestions: Promise<string[]>,
+
+      /**
+       * Obsidian tags of the note, without `#`.
+       */
+      noteTags: string[]
+    },
     private readonly onSubmit: (params: WordPressPostParams, updateMatterData: (matter: MatterData) => void) => void,
     private readonly matterData: MatterData,
+    private readonly profile: WpProfile,
   ) {
     super(plugin);
   }
 
   onOpen() {
+    const settings = getProfileSettings(this.plugin.settings, this.profile);
     const params: WordPressPostParams = {
-      status: this.plugin.settings.defaultPostStatus,
-      commentStatus: this.plugin.settings.defaultCommentStatus,
+      status: settings.defaultPostStatus,
+      commentStatus: settings.defaultCommentStatus,
       postType: this.postTypes.selected,
       categories: this.categories.selected,
-      tags: [],
+      tags: this.tags.selected,
       title: '',
-      content: ''
+      content: '',
+      excerpt: this.matterData?.wp_excerpt ?? '',
+      slug: this.matterData?.wp_slug ?? '',
+      password: this.matterData?.wp_password ?? '',
+      pingStatus: this.matterData?.wp_ping_status,
+      sticky: this.matterData?.wp_sticky === true,
+      featuredImage: this.matterData?.wp_featured_image ?? ''
     };
 
     this.display(params);
@@ -63,6 +98,10 @@ export class WpPublishModal extends AbstractModal {
 
     contentEl.empty();
 
+    const postType = this.postTypes.items.find(it => it.name === params.postType)
+      ?? getDefaultPostTypeInfo(params.postType);
+    const supports = (feature: string) => postType.supports.includes(feature);
+
     this.createHeader(this.t('publishModal_title'));
 
     new Setting(contentEl)
@@ -161,24 +200,12 @@ export class WpPublishModal extends AbstractModal {
       delete params.datetime;
     }
 
-    new Setting(contentEl)
-      .setName(this.t('publishModal_commentStatus'))
-      .addDropdown((dropdown) => {
-        dropdown
-          .addOption(CommentStatus.Open, this.t('publishModal_commentStatusOpen'))
-          .addOption(CommentStatus.Closed, this.t('publishModal_commentStatusClosed'))
-          .setValue(params.commentStatus)
-          .onChange((value) => {
-            params.commentStatus = value as CommentStatus;
-          });
-      });
-
     if (!this.matterData?.wp_url) {
       new Setting(contentEl)
         .setName(this.t('publishModal_postType'))
         .addDropdown((dropdown) => {
           this.postTypes.items.forEach(it => {
-            dropdown.addOption(it, it);
+            dropdown.addOption(it.name, it.label);
           });
           dropdown
             .setValue(params.postType)
@@ -189,22 +216,120 @@ export class WpPublishModal extends AbstractModal {
         });
     }
 
-    if (params.postType === PostTypeConst.Post) {
-      if (this.categories.items.length > 0) {
-        new Setting(contentEl)
-          .setName(this.t('publishModal_category'))
-          .addDropdown((dropdown) => {
-            this.categories.items.forEach(it => {
-              dropdown.addOption(it.id, it.name);
+    // fields not supported by post type are not shown
+    if (supports('comments')) {
+      new Setting(contentEl)
+        .setName(this.t('publishModal_commentStatus'))
+        .addDropdown((dropdown) => {
+          dropdown
+            .addOption(CommentStatus.Open, this.t('publishModal_commentStatusOpen'))
+            .addOption(CommentStatus.Closed, this.t('publishModal_commentStatusClosed'))
+            .setValue(params.commentStatus)
+            .onChange((value) => {
+              params.commentStatus = value as CommentStatus;
             });
-            dropdown
-              .setValue(String(params.categories[0]))
-              .onChange((value) => {
-                params.categories = [ toNumber(value) ];
-              });
-          });
+        });
+    }
+
+    if (supports('trackbacks')) {
+      new Setting(contentEl)
+        .setName(this.t('publishModal_pingStatus'))
+        .addDropdown((dropdown) => {
+          dropdown
+            .addOption('', this.t('publishModal_pingStatusDefault'))
+            .addOption(PingStatus.Open, this.t('publishModal_pingStatusOpen'))
+            .addOption(PingStatus.Closed, this.t('publishModal_pingStatusClosed'))
+            .setValue(params.pingStatus ?? '')
+            .onChange((value) => {
+              params.pingStatus = value.length > 0 ? value as PingStatus : undefined;
+            });
+        });
+    } else {
+      delete params.pingStatus;
+    }
+
+    if (postType.taxonomies.includes('category')) {
+      if (params.categories.length === 0) {
+        params.categories = this.categories.selected;
       }
+      this.displayCategories(contentEl, params);
+    } else {
+      params.categories = [];
+    }
+
+    if (postType.taxonomies.includes('post_tag')) {
+      this.displayTags(contentEl, params);
+    } else {
+      params.tags = [];
+    }
+
+    // only 'post' could be sticky in WordPress
+    if (params.postType === PostTypeConst.Post) {
+      new Setting(contentEl)
+        .setName(this.t('publishModal_sticky'))
+        .addToggle(toggle => toggle
+          .setValue(params.sticky ?? false)
+          .onChange((value) => {
+            params.sticky = value;
+          }));
+    } else {
+      delete params.sticky;
+    }
+
+    if (supports('excerpt')) {
+      new Setting(contentEl)
+        .setName(this.t('publishModal_excerpt'))
+        .addTextArea(text => text
+          .setValue(params.excerpt ?? '')
+          .onChange((value) => {
+            params.excerpt = value;
+          }));
+    } else {
+      params.excerpt = '';
+    }
+
+    new Setting(contentEl)
+      .setName(this.t('publishModal_slug'))
+      .setDesc(this.t('publishModal_slugDesc'))
+      .addText(text => text
+        .setValue(params.slug ?? '')
+        .onChange((value) => {
+          params.slug = value.trim();
+        }));
+
+    new Setting(contentEl)
+      .setName(this.t('publishModal_password'))
+      .setDesc(this.t('publishModal_passwordDesc'))
+      .addText(text => text
+        .setValue(params.password ?? '')
+        .onChange((value) => {
+          params.password = value;
+        }));
+
+    if (supports('thumbnail')) {
+      new Setting(contentEl)
+        .setName(this.t('publishModal_featuredImage'))
+        .setDesc(this.t('publishModal_featuredImageDesc'))
+        .addText(text => text
+          .setPlaceholder('https://example.com/image.png')
+          .setValue(params.featuredImage ?? '')
+          .onChange((value) => {
+            params.featuredImage = value.trim();
+          }))
+        .addExtraButton(button => button
+          .setIcon('image-file')
+          .setTooltip(this.t('publishModal_chooseFeaturedImage'))
+          .onClick(() => {
+            openImageSuggestModal(this.plugin)
+              .then(image => {
+                params.featuredImage = image.path;
+                this.display(params);
+              });
+          }));
+    } else {
+      params.featuredImage = '';
     }
+
     new Setting(contentEl)
       .addButton(button => button
         .setButtonText(this.t('publishModal_publishButtonText'))
@@ -222,14 +347,231 @@ export class WpPublishModal extends AbstractModal {
                   this.onSubmit(params, fm => {
                     delete fm.wp_categories;
                     delete fm.wp_tags;
+                    this.updateMatterDataFromParams(fm, params);
                   });
                 }
               });
           } else {
-            this.onSubmit(params, fm => {});
+            this.onSubmit(params, fm => {
+              this.updateMatterDataFromParams(fm, params);
+            });
           }
         })
       );
   }
 
+  /**
+   * Categories as a searchable tree with checkboxes, new categories could be created inline.
+   */
+  private displayCategories(containerEl: HTMLElement, params: WordPressPostParams): void {
+    const treeEl = createDiv({ cls: 'wp-category-tree' });
+    const renderTree = () => {
+      treeEl.empty();
+      const items = filterCategoryTree(getCategoryTree(this.categories.items), this.categoryFilter);
+      if (items.length === 0) {
+        treeEl.createDiv({ cls: 'wp-category-empty', text: this.t('publishModal_noCategories') });
+      }
+      items.forEach(({ term, depth }) => {
+        const id = toNumber(term.id);
+        const itemEl = treeEl.createEl('label', { cls: 'wp-category-item' });
+        itemEl.style.paddingLeft = `${depth * 20}px`;
+        const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+        checkbox.checked = params.categories.includes(id);
+        checkbox.addEventListener('change', () => {
+          params.categories = checkbox.checked
+            ? [ ...params.categories, id ]
+            : params.categories.filter(it => it !== id);
+        });
+        itemEl.createSpan({ text: term.name });
+      });
+    };
+
+    new Setting(containerEl)
+      .setName(this.t('publishModal_category'))
+      .addSearch(search => search
+        .setPlaceholder(this.t('publishModal_searchCategories'))
+        .setValue(this.categoryFilter)
+        .onChange((value) => {
+          this.categoryFilter = value;
+          renderTree();
+        }));
+    containerEl.appendChild(treeEl);
+    renderTree();
+
+    let newCategoryName = '';
+    let newCategoryParent = '';
+    new Setting(containerEl)
+      .setName(this.t('publishModal_newCategory'))
+      .addText(text => text
+        .setPlaceholder(this.t('publishModal_newCategoryName'))
+        .onChange((value) => {
+          newCategoryName = value.trim();
+        }))
+      .addDropdown(dropdown => {
+        dropdown.addOption('', this.t('publishModal_newCategoryNoParent'));
+        getCategoryTree(this.categories.items).forEach(({ term, depth }) => {
+          dropdown.addOption(String(term.id), `${'— '.repeat(depth)}${term.name}`);
+        });
+        dropdown.onChange((value) => {
+          newCategoryParent = value;
+        });
+      })
+      .addButton(button => button
+        .setButtonText(this.t('publishModal_addCategory'))
+        .onClick(() => {
+          if (newCategoryName.length === 0) {
+            return;
+          }
+          button.setDisabled(true);
+          this.categories.create(newCategoryName, newCategoryParent || undefined)
+            .then(term => {
+              this.categories.items.push(term);
+              params.categories = [ ...params.categories, toNumber(term.id) ];
+              this.display(params);
+            })
+            .catch(error => {
+              button.setDisabled(false);
+              showError(error);
+            });
+        }));
+  }
+
+  /**
+   * Tags input autocompleted from server tags, Obsidian tags of the note could be merged.
+   */
+  private displayTags(containerEl: HTMLElement, params: WordPressPostParams): void {
+    const datalistId = 'wp-publish-modal-tags';
+    const tagsEl = createDiv({ cls: 'wp-tags' });
+    const renderTags = () => {
+      tagsEl.empty();
+      params.tags.forEach(tag => {
+        const tagEl = tagsEl.createSpan({ cls: 'wp-tag', text: tag });
+        const removeEl = tagEl.createSpan({ cls: 'wp-tag-remove', text: '×' });
+        removeEl.addEventListener('click', () => {
+          params.tags = params.tags.filter(it => it !== tag);
+          renderTags();
+        });
+      });
+    };
+    const addTags = (names: string[]) => {
+      params.tags = uniq([
+        ...params.tags,
+        ...names.map(it => it.trim()).filter(it => it.length > 0)
+      ]);
+      renderTags();
+    };
+
+    new Setting(containerEl)
+      .setName(this.t('publishModal_tags'))
+      .setDesc(this.t('publishModal_tagsDesc'))
+      .addText(text => {
+        text.setPlaceholder(this.t('publishModal_addTag'));
+        text.inputEl.setAttr('list', datalistId);
+        text.inputEl.addEventListener('keydown', (event) => {
+          if (event.key === 'Enter') {
+            event.preventDefault();
+            addTags(text.getValue().split(','));
+            text.setValue('');
+          }
+        });
+      });
+    const datalistEl = containerEl.createEl('datalist', { attr: { id: datalistId } });
+    this.tags.suggestions.then(names => {
+      names.forEach(name => {
+        datalistEl.createEl('option', { value: name });
+      });
+    });
+    containerEl.appendChild(tagsEl);
+    renderTags();
+
+    const unmergedNoteTags = this.tags.noteTags.filter(it => !params.tags.includes(it));
+    if (unmergedNoteTags.length > 0) {
+      const mergeSetting = new Setting(containerEl)
+        .setName(this.t('publishModal_mergeNoteTags'))
+        .setDesc(unmergedNoteTags.map(it => `#${it}`).join(' '))
+        .addButton(button => button
+          .setButtonText(this.t('publishModal_mergeNoteTagsButtonText'))
+          .onClick(() => {
+            addTags(unmergedNoteTags);
+            mergeSetting.settingEl.hide();
+          }));
+    }
+  }
+
+  /**
+   * Save values chosen in modal to front-matter, so they are used in next publishing.
+   *
+   * Password is not saved as front-matter is plain text.
+   */
+  private updateMatterDataFromParams(fm: MatterData, params: WordPressPostParams): void {
+    const values: Record<string, SafeAny> = {
+      wp_excerpt: params.excerpt,
+      wp_slug: params.slug,
+      wp_ping_status: params.pingStatus,
+      wp_sticky: params.postType === PostTypeConst.Post && params.sticky ? true : undefined,
+      wp_featured_image: params.featuredImage,
+    };
+    Object.entries(values).forEach(([ key, value ]) => {
+      if (value === undefined || value === '') {
+        delete fm[key];
+      } else {
+        fm[key] = value;
+      }
+    });
+  }
+
+}
+
+interface CategoryTreeItem {
+  term: Term;
+  depth: number;
+}
+
+/**
+ * Flatten categories in tree order, children follow their parents.
+ */
+function getCategoryTree(categories: Term[]): CategoryTreeItem[] {
+  const ids = new Set(categories.map(it => String(it.id)));
+  const parentOf = (term: Term): string => {
+    const parent = String(term.parent ?? '0');
+    // orphans are shown as top level categories
+    return ids.has(parent) ? parent : '0';
+  };
+  const result: CategoryTreeItem[] = [];
+  const walk = (parent: string, depth: number) => {
+    categories
+      .filter(it => parentOf(it) === parent && String(it.id) !== parent)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(term => {
+        result.push({ term, depth });
+        walk(String(term.id), depth + 1);
+      });
+  };
+  walk('0', 0);
+  return result;
+}
+
+/**
+ * Keep categories matching the keyword, with their ancestors to keep the tree readable.
+ */
+function filterCategoryTree(items: CategoryTreeItem[], keyword: string): CategoryTreeItem[] {
+  const normalizedKeyword = keyword.trim().toLowerCase();
+  if (normalizedKeyword.length === 0) {
+    return items;
+  }
+  const kept = new Set<CategoryTreeItem>();
+  items.forEach((item, index) => {
+    if (item.term.name.toLowerCase().includes(normalizedKeyword)) {
+      kept.add(item);
+      // ancestors are the nearest previous items with smaller depth
+      let depth = item.depth;
+      for (let i = index - 1; i >= 0 && depth > 0; i--) {
+        if (items[i].depth < depth) {
+          kept.add(items[i]);
+          depth = items[i].depth;
+        }
+      }
+    }
+  });
+  return items.filter(it => kept.has(it));
 }
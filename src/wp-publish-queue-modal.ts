@@ -0,0 +1,88 @@
+import { Setting } from 'obsidian';
+import WordpressPlugin from './main';
+import { AbstractModal } from './abstract-modal';
+import { format } from 'date-fns';
+
+
+export function openPublishQueueModal(
+  plugin: WordpressPlugin
+): void {
+  new WpPublishQueueModal(plugin).open();
+}
+
+/**
+ * Modal to inspect, retry or drop queued publishing.
+ */
+class WpPublishQueueModal extends AbstractModal {
+
+  constructor(
+    readonly plugin: WordpressPlugin
+  ) {
+    super(plugin);
+  }
+
+  onOpen() {
+    this.display();
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private display(): void {
+    const { contentEl } = this;
+    const queue = this.plugin.publishQueue;
+
+    contentEl.empty();
+
+    this.createHeader(this.t('publishQueueModal_title'));
+
+    if (queue.entries.length === 0) {
+      new Setting(contentEl)
+        .setName(this.t('publishQueueModal_empty'));
+      return;
+    }
+
+    queue.entries.forEach(entry => {
+      const desc = entry.failed
+        ? this.t('publishQueueModal_entryFailedDesc', {
+          profileName: entry.profileName,
+          attempts: String(entry.attempts)
+        })
+        : this.t('publishQueueModal_entryDesc', {
+          profileName: entry.profileName,
+          attempts: String(entry.attempts),
+          nextAttempt: format(entry.nextAttemptAt, 'yyyy-MM-dd HH:mm:ss')
+        });
+      new Setting(contentEl)
+        .setName(entry.filePath)
+        .setDesc(entry.lastError ? `${desc} / ${entry.lastError}` : desc)
+        .addButton(button => button
+          .setButtonText(this.t('publishQueueModal_retry'))
+          .onClick(async () => {
+            button.setDisabled(true);
+            await queue.retry(entry.id);
+            this.display();
+          }))
+        .addButton(button => button
+          .setButtonText(this.t('publishQueueModal_drop'))
+          .setWarning()
+          .onClick(async () => {
+            await queue.remove(entry.id);
+            this.display();
+          }));
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText(this.t('publishQueueModal_retryAll'))
+        .setCta()
+        .onClick(async () => {
+          button.setDisabled(true);
+          await queue.retryAll();
+          this.display();
+        }));
+  }
+
+}
@@ -3,14 +3,17 @@ import {
   WordPressClientResult,
   WordPressClientReturnCode,
   WordPressMediaUploadResult,
+  WordPressPost,
   WordPressPostParams,
-  WordPressPublishResult
+  WordPressPostsQuery,
+  WordPressPublishResult,
+  WordPressRevision
 } from './wp-client';
 import { AbstractWordPressClient } from './abstract-wp-client';
 import WordpressPlugin from './main';
-import { PostStatus, PostType, Term } from './wp-api';
+import { getDefaultPostTypeInfo, PingStatus, PostStatus, PostType, PostTypeConst, PostTypeInfo, TaxonomyInfo, Term } from './wp-api';
 import { RestClient } from './rest-client';
-import { isArray, isFunction, isNumber, isObject, isString, template } from 'lodash-es';
+import { flatten, isArray, isEmpty, isFunction, isNumber, isObject, isString, isUndefined, omitBy, pickBy, template } from 'lodash-es';
 import { SafeAny } from './utils';
 import { WpProfile } from './wp-profile';
 import { FormItemNameMapper, FormItems, Media } from './types';
@@ -21,12 +24,24 @@ interface WpRestEndpoint {
   base: string | UrlGetter;
   newPost: string | UrlGetter;
   editPost: string | UrlGetter;
+  getPost: string | UrlGetter;
+  getPosts: string | UrlGetter;
+  getPostsBySlug: string | UrlGetter;
+  trashPost: string | UrlGetter;
+  restorePost: string | UrlGetter;
+  deletePost: string | UrlGetter;
+  getRevisions: string | UrlGetter;
   getCategories: string | UrlGetter;
+  newCategory: string | UrlGetter;
   newTag: string | UrlGetter;
   getTag: string | UrlGetter;
+  getTags: string | UrlGetter;
   validateUser: string | UrlGetter;
   uploadFile: string | UrlGetter;
   getPostTypes: string | UrlGetter;
+  getTaxonomies: string | UrlGetter;
+  getTerms: string | UrlGetter;
+  newTerm: string | UrlGetter;
 }
 
 export class WpRestClient extends AbstractWordPressClient {
@@ -50,15 +65,18 @@ export class WpRestClient extends AbstractWordPressClient {
   }
 
   // Implementation of getPostsBySlug for URL to ID conversion
-  protected async getPostsBySlug(slug: string): Promise<any[]> {
+  protected async getPostsBySlug(slug: string, postType: PostType): Promise<any[]> {
     try {
-      console.log('DEBUG: WpRestClient getPostsBySlug called with:', slug);
+      console.log('DEBUG: WpRestClient getPostsBySlug called with:', slug, postType);
       // Include authentication since post may be private/draft
       const auth = await this.getAuth();
       
       // Search for posts in all statuses (published, draft, private, etc.)
       const response = await this.client.httpGet(
-        `wp-json/wp/v2/posts?slug=${encodeURIComponent(slug)}&status=publish,draft,private,pending,future`,
+        getUrl(this.context.endpoints?.getPostsBySlug, 'wp-json/wp/v2/<%= restBase %>?slug=<%= slug %>&status=publish,draft,private,pending,future', {
+          restBase: await this.getRestBase(postType, auth),
+          slug: encodeURIComponent(slug)
+        }),
         {
           headers: this.context.getHeaders(auth)
         }
@@ -77,16 +95,21 @@ export class WpRestClient extends AbstractWordPressClient {
     postParams: WordPressPostParams,
     certificate: WordPressAuthParams
   ): Promise<WordPressClientResult<WordPressPublishResult>> {
+    const restBase = await this.getRestBase(postParams.postType, certificate);
     let url: string;
     if (postParams.postId) {
-      url = getUrl(this.context.endpoints?.editPost, 'wp-json/wp/v2/posts/<%= postId %>', {
+      url = getUrl(this.context.endpoints?.editPost, 'wp-json/wp/v2/<%= restBase %>/<%= postId %>', {
+        restBase,
         postId: postParams.postId
       });
       console.log('DEBUG: REST UPDATE - URL:', url);
     } else {
-      url = getUrl(this.context.endpoints?.newPost, 'wp-json/wp/v2/posts');
+      url = getUrl(this.context.endpoints?.newPost, 'wp-json/wp/v2/<%= restBase %>', {
+        restBase
+      });
       console.log('DEBUG: REST CREATE - URL:', url);
     }
+    const taxonomies = isEmpty(postParams.termIds) ? [] : await this.getCachedTaxonomies(certificate);
     const extra: Record<string, string> = {};
     if (postParams.status === PostStatus.Future) {
       extra.date = formatISO(postParams.datetime ?? new Date());
@@ -99,6 +122,7 @@ export class WpRestClient extends AbstractWordPressClient {
       comment_status: postParams.commentStatus,
       categories: postParams.categories,
       tags: postParams.tags ?? [],
+      ...this.context.toPostFields(postParams, taxonomies),
       ...extra
     };
     
@@ -131,6 +155,191 @@ export class WpRestClient extends AbstractWordPressClient {
     }
   }
 
+  async getPost(postId: string, postType: PostType, certificate: WordPressAuthParams): Promise<WordPressClientResult<WordPressPost>> {
+    try {
+      const resp: SafeAny = await this.client.httpGet(
+        getUrl(this.context.endpoints?.getPost, 'wp-json/wp/v2/<%= restBase %>/<%= postId %>?context=edit&_embed=wp:term', {
+          restBase: await this.getRestBase(postType, certificate),
+          postId
+        }),
+        {
+          headers: this.context.getHeaders(certificate)
+        });
+      return {
+        code: WordPressClientReturnCode.OK,
+        data: this.context.responseParser.toWordPressPost(resp),
+        response: resp
+      };
+    } catch (e: SafeAny) {
+      console.error('getPost', e);
+      return {
+        code: WordPressClientReturnCode.Error,
+        error: {
+          code: WordPressClientReturnCode.ServerInternalError,
+          message: e.toString()
+        },
+        response: undefined
+      };
+    }
+  }
+
+  async getPosts(query: WordPressPostsQuery, certificate: WordPressAuthParams): Promise<WordPressClientResult<WordPressPost[]>> {
+    try {
+      const resp: SafeAny = await this.client.httpGet(
+        getUrl(this.context.endpoints?.getPosts, 'wp-json/wp/v2/<%= restBase %>?context=edit&_embed=wp:term&status=publish,draft,private,pending,future&per_page=<%= perPage %>&page=<%= page %>', {
+          restBase: await this.getRestBase(query.postType, certificate),
+          postType: query.postType,
+          perPage: query.perPage,
+          page: query.page
+        }),
+        {
+          headers: this.context.getHeaders(certificate)
+        });
+      return {
+        code: WordPressClientReturnCode.OK,
+        data: this.context.responseParser.toWordPressPosts(resp),
+        response: resp
+      };
+    } catch (e: SafeAny) {
+      if (e.status === 400 && query.page > 1) {
+        // WordPress responses 400 if page number is larger than total pages
+        return {
+          code: WordPressClientReturnCode.OK,
+          data: [],
+          response: undefined
+        };
+      }
+      console.error('getPosts', e);
+      return {
+        code: WordPressClientReturnCode.Error,
+        error: {
+          code: WordPressClientReturnCode.ServerInternalError,
+          message: e.toString()
+        },
+        response: undefined
+      };
+    }
+  }
+
+  async getRevisions(
+    postId: string,
+    postType: PostType,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<WordPressRevision[]>> {
+    try {
+      const resp: SafeAny = await this.client.httpGet(
+        getUrl(this.context.endpoints?.getRevisions, 'wp-json/wp/v2/<%= restBase %>/<%= postId %>/revisions?context=edit&_embed=author', {
+          restBase: await this.getRestBase(postType, certificate),
+          postId
+        }),
+        {
+          headers: this.context.getHeaders(certificate)
+        });
+      return {
+        code: WordPressClientReturnCode.OK,
+        data: toWordPressRevisions(resp),
+        response: resp
+      };
+    } catch (e: SafeAny) {
+      console.error('getRevisions', e);
+      return {
+        code: WordPressClientReturnCode.Error,
+        error: {
+          code: WordPressClientReturnCode.ServerInternalError,
+          message: e.toString()
+        },
+        response: undefined
+      };
+    }
+  }
+
+  async restoreRevision(
+    postId: string,
+    postType: PostType,
+    revision: WordPressRevision,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<boolean>> {
+    // REST API has no restore endpoint, update post by revision which creates a new revision like WordPress does
+    return this.doPostOperation(
+      {
+        method: 'POST',
+        body: {
+          title: revision.title,
+          content: revision.content
+        }
+      },
+      getUrl(this.context.endpoints?.editPost, 'wp-json/wp/v2/<%= restBase %>/<%= postId %>', {
+        restBase: await this.getRestBase(postType, certificate),
+        postId
+      }),
+      certificate
+    );
+  }
+
+  async trashPost(postId: string, postType: PostType, certificate: WordPressAuthParams): Promise<WordPressClientResult<boolean>> {
+    return this.doPostOperation(
+      this.context.postOperations.trash,
+      getUrl(this.context.endpoints?.trashPost, 'wp-json/wp/v2/<%= restBase %>/<%= postId %>', {
+        restBase: await this.getRestBase(postType, certificate),
+        postId
+      }),
+      certificate
+    );
+  }
+
+  async restorePost(postId: string, postType: PostType, certificate: WordPressAuthParams): Promise<WordPressClientResult<boolean>> {
+    return this.doPostOperation(
+      this.context.postOperations.restore,
+      getUrl(this.context.endpoints?.restorePost, 'wp-json/wp/v2/<%= restBase %>/<%= postId %>', {
+        restBase: await this.getRestBase(postType, certificate),
+        postId
+      }),
+      certificate
+    );
+  }
+
+  async deletePost(postId: string, postType: PostType, certificate: WordPressAuthParams): Promise<WordPressClientResult<boolean>> {
+    return this.doPostOperation(
+      this.context.postOperations.delete,
+      getUrl(this.context.endpoints?.deletePost, 'wp-json/wp/v2/<%= restBase %>/<%= postId %>?force=true', {
+        restBase: await this.getRestBase(postType, certificate),
+        postId
+      }),
+      certificate
+    );
+  }
+
+  private async doPostOperation(
+    operation: WpRestPostOperation,
+    url: string,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<boolean>> {
+    try {
+      const headers = this.context.getHeaders(certificate);
+      let resp: SafeAny;
+      if (operation.method === 'DELETE') {
+        resp = await this.client.httpDelete(url, { headers });
+      } else {
+        resp = await this.client.httpPost(url, operation.body ?? {}, { headers });
+      }
+      return {
+        code: WordPressClientReturnCode.OK,
+        data: true,
+        response: resp
+      };
+    } catch (e: SafeAny) {
+      console.error('doPostOperation', url, e);
+      return {
+        code: WordPressClientReturnCode.Error,
+        error: {
+          code: WordPressClientReturnCode.ServerInternalError,
+          message: e.toString()
+        },
+        response: undefined
+      };
+    }
+  }
+
   async getCategories(certificate: WordPressAuthParams): Promise<Term[]> {
     const data = await this.client.httpGet(
       getUrl(this.context.endpoints?.getCategories, 'wp-json/wp/v2/categories?per_page=100'),
@@ -140,15 +349,86 @@ export class WpRestClient extends AbstractWordPressClient {
     return this.context.responseParser.toTerms(data);
   }
 
-  async getPostTypes(certificate: WordPressAuthParams): Promise<PostType[]> {
+  async newCategory(name: string, parentId: string | undefined, certificate: WordPressAuthParams): Promise<Term> {
+    const resp = await this.client.httpPost(
+      getUrl(this.context.endpoints?.newCategory, 'wp-json/wp/v2/categories'),
+      omitBy({
+        name,
+        parent: parentId ? Number(parentId) : undefined
+      }, isUndefined),
+      {
+        headers: this.context.getHeaders(certificate)
+      });
+    return this.context.responseParser.toTerm(resp);
+  }
+
+  async getPostTypes(certificate: WordPressAuthParams): Promise<PostTypeInfo[]> {
     const data: SafeAny = await this.client.httpGet(
-      getUrl(this.context.endpoints?.getPostTypes, 'wp-json/wp/v2/types'),
+      getUrl(this.context.endpoints?.getPostTypes, 'wp-json/wp/v2/types?context=edit'),
       {
         headers: this.context.getHeaders(certificate)
       });
     return this.context.responseParser.toPostTypes(data);
   }
 
+  async getTaxonomies(certificate: WordPressAuthParams): Promise<TaxonomyInfo[]> {
+    const data: SafeAny = await this.client.httpGet(
+      getUrl(this.context.endpoints?.getTaxonomies, 'wp-json/wp/v2/taxonomies'),
+      {
+        headers: this.context.getHeaders(certificate)
+      });
+    if (!isObject(data)) {
+      return [];
+    }
+    return Object.entries(data as Record<string, SafeAny>)
+      .map(([ name, taxonomy ]) => ({
+        name,
+        label: taxonomy.name ?? name,
+        restBase: taxonomy.rest_base || name,
+        hierarchical: !!taxonomy.hierarchical
+      }));
+  }
+
+  async getTerm(taxonomy: TaxonomyInfo, name: string, certificate: WordPressAuthParams): Promise<Term> {
+    const headers = this.context.getHeaders(certificate);
+    // terms endpoints are WordPress REST API ones for all contexts
+    const termsResp: SafeAny = await this.client.httpGet(
+      getUrl(this.context.endpoints?.getTerms, 'wp-json/wp/v2/<%= restBase %>?search=<%= name %>&per_page=100', {
+        restBase: taxonomy.restBase,
+        name: encodeURIComponent(name)
+      }),
+      { headers });
+    const exists = isArray(termsResp)
+      ? termsResp.find(it => String(it.name).toLowerCase() === name.toLowerCase())
+      : undefined;
+    const term = exists ?? await this.client.httpPost(
+      getUrl(this.context.endpoints?.newTerm, 'wp-json/wp/v2/<%= restBase %>', {
+        restBase: taxonomy.restBase
+      }),
+      {
+        name
+      },
+      { headers }) as SafeAny;
+    if (term?.id === undefined) {
+      throw new Error(term?.message ?? `Cannot save term ${name}`);
+    }
+    return {
+      ...term,
+      id: String(term.id),
+      taxonomy: taxonomy.name
+    };
+  }
+
+  /**
+   * REST base of the post type, custom post types could have a REST base different from their names.
+   */
+  private async getRestBase(postType: PostType, certificate: WordPressAuthParams): Promise<string> {
+    if (postType === PostTypeConst.Post || postType === PostTypeConst.Page) {
+      return toRestBase(postType);
+    }
+    return (await this.getPostTypeInfo(postType, certificate)).restBase;
+  }
+
   async validateUser(certificate: WordPressAuthParams): Promise<WordPressClientResult<boolean>> {
     try {
       const data = await this.client.httpGet(
@@ -196,6 +476,22 @@ export class WpRestClient extends AbstractWordPressClient {
     }
   }
 
+  async getServerTags(certificate: WordPressAuthParams): Promise<Term[]> {
+    // tags endpoint is WordPress REST API one for all contexts
+    const resp: SafeAny = await this.client.httpGet(
+      getUrl(this.context.endpoints?.getTags, 'wp-json/wp/v2/tags?per_page=100&orderby=count&order=desc'),
+      {
+        headers: this.context.getHeaders(certificate)
+      });
+    if (!isArray(resp)) {
+      return [];
+    }
+    return resp.map(it => ({
+      ...it,
+      id: String(it.id)
+    }));
+  }
+
   async uploadMedia(media: Media, certificate: WordPressAuthParams): Promise<WordPressClientResult<WordPressMediaUploadResult>> {
     try {
       const formItems = new FormItems();
@@ -233,6 +529,35 @@ export class WpRestClient extends AbstractWordPressClient {
 
 type UrlGetter = () => string;
 
+/**
+ * Convert `wp/v2` revisions response, which is also supported by wordpress.com.
+ */
+function toWordPressRevisions(response: SafeAny): WordPressRevision[] {
+  if (!isArray(response)) {
+    return [];
+  }
+  return response.map((it: SafeAny) => ({
+    revisionId: String(it.id),
+    author: it._embedded?.author?.[0]?.name ?? String(it.author),
+    date: new Date(`${it.modified_gmt ?? it.date_gmt}Z`),
+    title: it.title?.raw ?? it.title?.rendered ?? '',
+    content: it.content?.raw ?? it.content?.rendered ?? ''
+  }));
+}
+
+/**
+ * REST base of built-in post types, custom post types are assumed to use their names
+ * if their REST bases are unknown.
+ */
+function toRestBase(postType: PostType): string {
+  if (postType === PostTypeConst.Post) {
+    return 'posts';
+  } else if (postType === PostTypeConst.Page) {
+    return 'pages';
+  }
+  return postType;
+}
+
 function getUrl(
   url: string | UrlGetter | undefined,
   defaultValue: string,
@@ -254,11 +579,33 @@ function getUrl(
   }
 }
 
+/**
+ * HTTP request of trashing, restoring or deleting a post.
+ */
+interface WpRestPostOperation {
+  method: 'POST' | 'DELETE';
+  body?: Record<string, unknown>;
+}
+
 interface WpRestClientContext {
   name: string;
 
+  postOperations: {
+    trash: WpRestPostOperation;
+    restore: WpRestPostOperation;
+    delete: WpRestPostOperation;
+  };
+
   responseParser: {
     toWordPressPublishResult: (postParams: WordPressPostParams, response: SafeAny) => WordPressPublishResult;
+    /**
+     * Convert response to `WordPressPost`.
+     *
+     * If there is any error, throw new error directly.
+     * @param response response from remote server
+     */
+    toWordPressPost: (response: SafeAny) => WordPressPost;
+    toWordPressPosts: (response: SafeAny) => WordPressPost[];
     /**
      * Convert response to `WordPressMediaUploadResult`.
      *
@@ -268,7 +615,7 @@ interface WpRestClientContext {
     toWordPressMediaUploadResult: (response: SafeAny) => WordPressMediaUploadResult;
     toTerms: (response: SafeAny) => Term[];
     toTerm: (response: SafeAny) => Term;
-    toPostTypes: (response: SafeAny) => PostType[];
+    toPostTypes: (response: SafeAny) => PostTypeInfo[];
   };
 
   endpoints?: Partial<WpRestEndpoint>;
@@ -277,6 +624,15 @@ interface WpRestClientContext {
 
   formItemNameMapper?: FormItemNameMapper;
 
+  /**
+   * Convert optional post parameters to request fields,
+   * fields without value are not included.
+   *
+   * @param postParams post parameters
+   * @param taxonomies taxonomies of terms in post parameters
+   */
+  toPostFields(postParams: WordPressPostParams, taxonomies: TaxonomyInfo[]): Record<string, SafeAny>;
+
   getHeaders(wp: WordPressAuthParams): Record<string, string>;
 
 }
@@ -284,6 +640,33 @@ interface WpRestClientContext {
 class WpRestClientCommonContext implements WpRestClientContext {
   name = 'WpRestClientCommonContext';
 
+  postOperations = {
+    trash: { method: 'DELETE' as const },
+    // REST API has no restore endpoint, restore as draft like WordPress does
+    restore: { method: 'POST' as const, body: { status: PostStatus.Draft } },
+    delete: { method: 'DELETE' as const },
+  };
+
+  toPostFields(postParams: WordPressPostParams, taxonomies: TaxonomyInfo[]): Record<string, SafeAny> {
+    // terms are assigned by REST bases of their taxonomies
+    const terms = Object.fromEntries(
+      Object.entries(postParams.termIds ?? {})
+        .map(([ name, ids ]) => [
+          taxonomies.find(it => it.name === name)?.restBase ?? name,
+          ids.map(id => Number(id))
+        ])
+    );
+    return omitBy({
+      ...terms,
+      excerpt: postParams.excerpt,
+      slug: postParams.slug,
+      password: postParams.password,
+      ping_status: postParams.pingStatus,
+      sticky: postParams.postType === PostTypeConst.Post ? postParams.sticky : undefined,
+      featured_media: postParams.featuredMediaId ? Number(postParams.featuredMediaId) : undefined,
+    }, isUndefined);
+  }
+
   getHeaders(wp: WordPressAuthParams): Record<string, string> {
     return {
       'authorization': `Basic ${btoa(`${wp.username}:${wp.password}`)}`
@@ -301,9 +684,37 @@ class WpRestClientCommonContext implements WpRestClientContext {
       }
       throw new Error('xx');
     },
+    toWordPressPost: (response: SafeAny): WordPressPost => {
+      if (response.id) {
+        const embeddedTerms: SafeAny[] = flatten(response._embedded?.['wp:term'] ?? []);
+        return {
+          postId: String(response.id),
+          postType: response.type,
+          status: response.status,
+          title: response.title?.raw ?? response.title?.rendered ?? '',
+          // raw content is returned in edit context, without shortcodes and filters applied
+          content: response.content?.raw ?? response.content?.rendered ?? '',
+          categories: response.categories ?? [],
+          tags: embeddedTerms
+            .filter(term => term.taxonomy === 'post_tag')
+            .map(term => term.name),
+          url: response.link,
+          rawContent: response.content?.raw,
+          modified: response.modified_gmt ? new Date(`${response.modified_gmt}Z`).toISOString() : undefined
+        };
+      }
+      throw new Error(response.message ?? 'Invalid post response');
+    },
+    toWordPressPosts: (response: SafeAny): WordPressPost[] => {
+      if (isArray(response)) {
+        return response.map(it => this.responseParser.toWordPressPost(it));
+      }
+      return [];
+    },
     toWordPressMediaUploadResult: (response: SafeAny): WordPressMediaUploadResult => {
       return {
-        url: response.source_url
+        url: response.source_url,
+        id: response.id !== undefined ? String(response.id) : undefined
       };
     },
     toTerms: (response: SafeAny): Term[] => {
@@ -316,9 +727,20 @@ class WpRestClientCommonContext implements WpRestClientContext {
       ...response,
       id: response.id
     }),
-    toPostTypes: (response: SafeAny): PostType[] => {
+    toPostTypes: (response: SafeAny): PostTypeInfo[] => {
       if (isObject(response)) {
-        return Object.keys(response);
+        return Object.entries(response as Record<string, SafeAny>)
+          .map(([ name, type ]) => {
+            const defaultInfo = getDefaultPostTypeInfo(name);
+            return {
+              name,
+              label: type.name ?? name,
+              restBase: type.rest_base || defaultInfo.restBase,
+              // `supports` is returned only in edit context
+              supports: type.supports ? Object.keys(pickBy(type.supports)) : defaultInfo.supports,
+              taxonomies: type.taxonomies ?? defaultInfo.taxonomies
+            };
+          });
       }
       return [];
     }
@@ -348,16 +770,50 @@ export class WpRestClientWpComOAuth2Context implements WpRestClientContext {
 
   needLoginModal = false;
 
+  postOperations = {
+    trash: { method: 'POST' as const },
+    restore: { method: 'POST' as const },
+    // the second delete request of a trashed post deletes it permanently
+    delete: { method: 'POST' as const },
+  };
+
+  toPostFields(postParams: WordPressPostParams, taxonomies: TaxonomyInfo[]): Record<string, SafeAny> {
+    return omitBy({
+      // terms are assigned by names, missing ones are created by server
+      terms: isEmpty(postParams.terms) ? undefined : postParams.terms,
+      excerpt: postParams.excerpt,
+      slug: postParams.slug,
+      password: postParams.password,
+      // all post types are published by the same endpoint
+      type: postParams.postType,
+      pings_open: postParams.pingStatus ? postParams.pingStatus === PingStatus.Open : undefined,
+      sticky: postParams.postType === PostTypeConst.Post ? postParams.sticky : undefined,
+      featured_image: postParams.featuredMediaId,
+    }, isUndefined);
+  }
+
   endpoints: WpRestEndpoint = {
     base: 'https://public-api.wordpress.com',
     newPost: () => `/rest/v1.1/sites/${this.site}/posts/new`,
     editPost: () => `/rest/v1.1/sites/${this.site}/posts/<%= postId %>`,
+    getPost: () => `/rest/v1.1/sites/${this.site}/posts/<%= postId %>?context=edit`,
+    getPosts: () => `/rest/v1.1/sites/${this.site}/posts?type=<%= postType %>&status=any&number=<%= perPage %>&page=<%= page %>`,
+    trashPost: () => `/rest/v1.1/sites/${this.site}/posts/<%= postId %>/delete`,
+    restorePost: () => `/rest/v1.1/sites/${this.site}/posts/<%= postId %>/restore`,
+    deletePost: () => `/rest/v1.1/sites/${this.site}/posts/<%= postId %>/delete`,
+    getPostsBySlug: () => `/wp/v2/sites/${this.site}/<%= restBase %>?slug=<%= slug %>&status=publish,draft,private,pending,future`,
+    getRevisions: () => `/wp/v2/sites/${this.site}/<%= restBase %>/<%= postId %>/revisions?context=edit&_embed=author`,
     getCategories: () => `/rest/v1.1/sites/${this.site}/categories`,
+    newCategory: () => `/rest/v1.1/sites/${this.site}/categories/new`,
     newTag: () => `/rest/v1.1/sites/${this.site}/tags/new`,
     getTag: () => `/rest/v1.1/sites/${this.site}/tags?number=1&search=<%= name %>`,
+    getTags: () => `/wp/v2/sites/${this.site}/tags?per_page=100&orderby=count&order=desc`,
     validateUser: () => `/rest/v1.1/sites/${this.site}/posts?number=1`,
     uploadFile: () => `/rest/v1.1/sites/${this.site}/media/new`,
     getPostTypes: () => `/rest/v1.1/sites/${this.site}/post-types`,
+    getTaxonomies: () => `/wp/v2/sites/${this.site}/taxonomies`,
+    getTerms: () => `/wp/v2/sites/${this.site}/<%= restBase %>?search=<%= name %>&per_page=100`,
+    newTerm: () => `/wp/v2/sites/${this.site}/<%= restBase %>`,
   };
 
   constructor(
@@ -391,11 +847,36 @@ export class WpRestClientWpComOAuth2Context implements WpRestClientContext {
       }
       throw new Error('xx');
     },
+    toWordPressPost: (response: SafeAny): WordPressPost => {
+      if (response.ID) {
+        return {
+          postId: String(response.ID),
+          postType: response.type,
+          status: response.status,
+          title: response.title ?? '',
+          content: response.content ?? '',
+          categories: Object.values(response.categories ?? {}).map((cat: SafeAny) => cat.ID),
+          tags: Object.keys(response.tags ?? {}),
+          url: response.URL,
+          modified: response.modified ? new Date(response.modified).toISOString() : undefined
+        };
+      }
+      throw new Error(response.message ?? 'Invalid post response');
+    },
+    toWordPressPosts: (response: SafeAny): WordPressPost[] => {
+      if (isNumber(response.found)) {
+        return response
+          .posts
+          .map((it: SafeAny) => this.responseParser.toWordPressPost(it));
+      }
+      return [];
+    },
     toWordPressMediaUploadResult: (response: SafeAny): WordPressMediaUploadResult => {
       if (response.media.length > 0) {
         const media = response.media[0];
         return {
-          url: media.link
+          url: media.link,
+          id: media.ID !== undefined ? String(media.ID) : undefined
         };
       } else if (response.errors) {
         throw new Error(response.errors.error.message);
@@ -417,11 +898,20 @@ export class WpRestClientWpComOAuth2Context implements WpRestClientContext {
       ...response,
       id: response.ID
     }),
-    toPostTypes: (response: SafeAny): PostType[] => {
+    toPostTypes: (response: SafeAny): PostTypeInfo[] => {
       if (isNumber(response.found)) {
         return response
           .post_types
-          .map((it: { name: string }) => (it.name));
+          .map((it: SafeAny) => {
+            const defaultInfo = getDefaultPostTypeInfo(it.name);
+            return {
+              name: it.name,
+              label: it.label ?? it.name,
+              restBase: it.rest_base || defaultInfo.restBase,
+              supports: it.supports ? Object.keys(pickBy(it.supports)) : defaultInfo.supports,
+              taxonomies: it.taxonomies ?? defaultInfo.taxonomies
+            };
+          });
       }
       return [];
     }
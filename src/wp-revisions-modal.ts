@@ -0,0 +1,115 @@
+import { Setting } from 'obsidian';
+import WordpressPlugin from './main';
+import { AbstractModal } from './abstract-modal';
+import { WordPressRevision } from './wp-client';
+import { format } from 'date-fns';
+
+
+const PREVIEW_LENGTH = 1000;
+
+export enum RevisionAction {
+  Restore,
+  Pull
+}
+
+export function openRevisionsModal(
+  plugin: WordpressPlugin,
+  revisions: WordPressRevision[]
+): Promise<{ action: RevisionAction, revision: WordPressRevision }> {
+  return new Promise((resolve, reject) => {
+    const modal = new WpRevisionsModal(plugin, revisions, (action, revision) => {
+      resolve({
+        action,
+        revision
+      });
+    });
+    modal.open();
+  });
+}
+
+/**
+ * WordPress post revisions modal.
+ */
+class WpRevisionsModal extends AbstractModal {
+
+  private selected: WordPressRevision | undefined;
+
+  constructor(
+    readonly plugin: WordpressPlugin,
+    private readonly revisions: WordPressRevision[],
+    private readonly onAction: (action: RevisionAction, revision: WordPressRevision) => void
+  ) {
+    super(plugin);
+  }
+
+  onOpen() {
+    this.display();
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  private display(): void {
+    const { contentEl } = this;
+
+    contentEl.empty();
+
+    this.createHeader(this.t('revisionsModal_title'));
+
+    const selected = this.selected;
+    if (selected) {
+      new Setting(contentEl)
+        .setName(selected.title)
+        .setDesc(this.t('revisionsModal_revisionDesc', {
+          date: format(selected.date, 'yyyy-MM-dd HH:mm:ss'),
+          author: selected.author
+        }));
+      const preview = contentEl.createEl('div', { cls: 'wp-revision-preview' });
+      // render as text, content could not be trusted
+      const text = new DOMParser()
+        .parseFromString(selected.content, 'text/html')
+        .body
+        .textContent ?? '';
+      preview.setText(text.length > PREVIEW_LENGTH ? `${text.substring(0, PREVIEW_LENGTH)}…` : text);
+
+      new Setting(contentEl)
+        .addButton(button => button
+          .setButtonText(this.t('common_back'))
+          .onClick(() => {
+            this.selected = undefined;
+            this.display();
+          })
+        )
+        .addButton(button => button
+          .setButtonText(this.t('revisionsModal_pull'))
+          .onClick(() => {
+            this.onAction(RevisionAction.Pull, selected);
+            this.close();
+          })
+        )
+        .addButton(button => button
+          .setButtonText(this.t('revisionsModal_restore'))
+          .setCta()
+          .onClick(() => {
+            this.onAction(RevisionAction.Restore, selected);
+            this.close();
+          })
+        );
+    } else {
+      this.revisions.forEach(revision => {
+        new Setting(contentEl)
+          .setName(format(revision.date, 'yyyy-MM-dd HH:mm:ss'))
+          .setDesc(`${revision.author} / ${revision.title}`)
+          .addButton(button => button
+            .setButtonText(this.t('revisionsModal_preview'))
+            .onClick(() => {
+              this.selected = revision;
+              this.display();
+            }));
+      });
+    }
+  }
+
+}
@@ -4,15 +4,21 @@ import {
   WordPressClientResult,
   WordPressClientReturnCode,
   WordPressMediaUploadResult,
+  WordPressPost,
   WordPressPostParams,
-  WordPressPublishResult
+  WordPressPostsQuery,
+  WordPressPublishResult,
+  WordPressRevision
 } from './wp-client';
 import { XmlRpcClient } from './xmlrpc-client';
 import { AbstractWordPressClient } from './abstract-wp-client';
-import { PostStatus, PostType, PostTypeConst, Term } from './wp-api';
+import { getDefaultPostTypeInfo, PostStatus, PostType, PostTypeConst, PostTypeInfo, TaxonomyInfo, Term } from './wp-api';
 import { SafeAny, showError } from './utils';
 import { WpProfile } from './wp-profile';
 import { Media } from './types';
+import { isDate, isEmpty, isUndefined, omitBy, pickBy } from 'lodash-es';
+
+const SLUG_LOOKUP_PAGE_SIZE = 100;
 
 interface FaultResponse {
   faultCode: string;
@@ -23,6 +29,44 @@ function isFaultResponse(response: unknown): response is FaultResponse {
   return (response as FaultResponse).faultCode !== undefined;
 }
 
+function toWordPressPost(post: SafeAny): WordPressPost {
+  const terms: SafeAny[] = post.terms ?? [];
+  return {
+    postId: String(post.post_id),
+    postType: post.post_type,
+    status: post.post_status,
+    title: post.post_title ?? '',
+    content: post.post_content ?? '',
+    categories: terms
+      .filter(term => term.taxonomy === 'category')
+      .map(term => parseInt(term.term_id, 10)),
+    tags: terms
+      .filter(term => term.taxonomy === 'post_tag')
+      .map(term => term.name),
+    url: post.link,
+    rawContent: post.post_content,
+    modified: isDate(post.post_modified_gmt) ? post.post_modified_gmt.toISOString() : undefined
+  };
+}
+
+function toBooleanResult(response: unknown): WordPressClientResult<boolean> {
+  if (isFaultResponse(response)) {
+    return {
+      code: WordPressClientReturnCode.Error,
+      error: {
+        code: response.faultCode,
+        message: `${response.faultCode}: ${response.faultString}`
+      },
+      response
+    };
+  }
+  return {
+    code: WordPressClientReturnCode.OK,
+    data: !!response,
+    response
+  };
+}
+
 export class WpXmlRpcClient extends AbstractWordPressClient {
 
   private readonly client: XmlRpcClient;
@@ -45,25 +89,28 @@ export class WpXmlRpcClient extends AbstractWordPressClient {
     postParams: WordPressPostParams,
     certificate: WordPressAuthParams
   ): Promise<WordPressClientResult<WordPressPublishResult>> {
-    let publishContent;
-    if (postParams.postType === PostTypeConst.Page) {
+    // categories and tags are rejected by post types without these taxonomies
+    const { taxonomies } = await this.getPostTypeInfo(postParams.postType, certificate);
+    const terms = {
+      ...(taxonomies.includes('category') ? { 'category': postParams.categories } : {}),
+      ...(postParams.termIds ?? {})
+    };
+    let publishContent: Record<string, SafeAny> = {
+      post_type: postParams.postType,
+      post_status: postParams.status,
+      comment_status: postParams.commentStatus,
+      post_title: title,
+      post_content: content,
+    };
+    if (!isEmpty(terms)) {
       publishContent = {
-        post_type: postParams.postType,
-        post_status: postParams.status,
-        comment_status: postParams.commentStatus,
-        post_title: title,
-        post_content: content,
+        ...publishContent,
+        terms
       };
-    } else {
+    }
+    if (taxonomies.includes('post_tag')) {
       publishContent = {
-        post_type: postParams.postType,
-        post_status: postParams.status,
-        comment_status: postParams.commentStatus,
-        post_title: title,
-        post_content: content,
-        terms: {
-          'category': postParams.categories
-        },
+        ...publishContent,
         terms_names: {
           'post_tag': postParams.tags
         }
@@ -75,6 +122,17 @@ export class WpXmlRpcClient extends AbstractWordPressClient {
         post_date: postParams.datetime ?? new Date()
       };
     }
+    publishContent = {
+      ...publishContent,
+      ...omitBy({
+        post_excerpt: postParams.excerpt,
+        post_name: postParams.slug,
+        post_password: postParams.password,
+        ping_status: postParams.pingStatus,
+        sticky: postParams.postType === PostTypeConst.Post ? postParams.sticky : undefined,
+        post_thumbnail: postParams.featuredMediaId ? Number(postParams.featuredMediaId) : undefined,
+      }, isUndefined)
+    };
     let publishPromise;
     if (postParams.postId) {
       publishPromise = this.client.methodCall('wp.editPost', [
@@ -113,6 +171,170 @@ export class WpXmlRpcClient extends AbstractWordPressClient {
     };
   }
 
+  async getPost(postId: string, postType: PostType, certificate: WordPressAuthParams): Promise<WordPressClientResult<WordPressPost>> {
+    const response = await this.client.methodCall('wp.getPost', [
+      0,
+      certificate.username,
+      certificate.password,
+      postId
+    ]);
+    if (isFaultResponse(response)) {
+      return {
+        code: WordPressClientReturnCode.Error,
+        error: {
+          code: response.faultCode,
+          message: `${response.faultCode}: ${response.faultString}`
+        },
+        response
+      };
+    }
+    return {
+      code: WordPressClientReturnCode.OK,
+      data: toWordPressPost(response),
+      response
+    };
+  }
+
+  async getPosts(query: WordPressPostsQuery, certificate: WordPressAuthParams): Promise<WordPressClientResult<WordPressPost[]>> {
+    const response = await this.client.methodCall('wp.getPosts', [
+      0,
+      certificate.username,
+      certificate.password,
+      {
+        post_type: query.postType,
+        post_status: 'any',
+        number: query.perPage,
+        offset: (query.page - 1) * query.perPage
+      }
+    ]);
+    if (isFaultResponse(response)) {
+      return {
+        code: WordPressClientReturnCode.Error,
+        error: {
+          code: response.faultCode,
+          message: `${response.faultCode}: ${response.faultString}`
+        },
+        response
+      };
+    }
+    return {
+      code: WordPressClientReturnCode.OK,
+      data: ((response as SafeAny[]) ?? []).map(toWordPressPost),
+      response
+    };
+  }
+
+  /**
+   * XML-RPC could not filter posts by slug, so posts are paged through with their names only.
+   */
+  protected async getPostsBySlug(slug: string, postType: PostType): Promise<SafeAny[]> {
+    try {
+      const auth = await this.getAuth();
+      for (let offset = 0; ; offset += SLUG_LOOKUP_PAGE_SIZE) {
+        const response = await this.client.methodCall('wp.getPosts', [
+          0,
+          auth.username,
+          auth.password,
+          {
+            post_type: postType,
+            post_status: 'any',
+            number: SLUG_LOOKUP_PAGE_SIZE,
+            offset
+          },
+          [ 'post_id', 'post_name' ]
+        ]);
+        if (isFaultResponse(response)) {
+          return [];
+        }
+        const posts = (response as SafeAny[]) ?? [];
+        const post = posts.find(it => it.post_name === slug);
+        if (post) {
+          return [ { id: post.post_id } ];
+        }
+        if (posts.length < SLUG_LOOKUP_PAGE_SIZE) {
+          return [];
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching posts by slug:', error);
+      return [];
+    }
+  }
+
+  async getRevisions(postId: string, postType: PostType, certificate: WordPressAuthParams): Promise<WordPressClientResult<WordPressRevision[]>> {
+    const response = await this.client.methodCall('wp.getRevisions', [
+      0,
+      certificate.username,
+      certificate.password,
+      postId
+    ]);
+    if (isFaultResponse(response)) {
+      return {
+        code: WordPressClientReturnCode.Error,
+        error: {
+          code: response.faultCode,
+          message: `${response.faultCode}: ${response.faultString}`
+        },
+        response
+      };
+    }
+    return {
+      code: WordPressClientReturnCode.OK,
+      data: ((response as SafeAny[]) ?? []).map(it => ({
+        revisionId: String(it.post_id),
+        author: String(it.post_author),
+        date: isDate(it.post_modified_gmt) ? it.post_modified_gmt : new Date(),
+        title: it.post_title ?? '',
+        content: it.post_content ?? ''
+      })),
+      response
+    };
+  }
+
+  async restoreRevision(
+    postId: string,
+    postType: PostType,
+    revision: WordPressRevision,
+    certificate: WordPressAuthParams
+  ): Promise<WordPressClientResult<boolean>> {
+    const response = await this.client.methodCall('wp.restoreRevision', [
+      0,
+      certificate.username,
+      certificate.password,
+      revision.revisionId
+    ]);
+    return toBooleanResult(response);
+  }
+
+  async trashPost(postId: string, postType: PostType, certificate: WordPressAuthParams): Promise<WordPressClientResult<boolean>> {
+    // wp.deletePost moves posts to trash if trash is enabled
+    return this.deletePost(postId, postType, certificate);
+  }
+
+  async restorePost(postId: string, postType: PostType, certificate: WordPressAuthParams): Promise<WordPressClientResult<boolean>> {
+    const response = await this.client.methodCall('wp.editPost', [
+      0,
+      certificate.username,
+      certificate.password,
+      postId,
+      {
+        post_status: PostStatus.Draft
+      }
+    ]);
+    return toBooleanResult(response);
+  }
+
+  async deletePost(postId: string, postType: PostType, certificate: WordPressAuthParams): Promise<WordPressClientResult<boolean>> {
+    // trashed posts will be deleted permanently
+    const response = await this.client.methodCall('wp.deletePost', [
+      0,
+      certificate.username,
+      certificate.password,
+      postId
+    ]);
+    return toBooleanResult(response);
+  }
+
   async getCategories(certificate: WordPressAuthParams): Promise<Term[]> {
     const response = await this.client.methodCall('wp.getTerms', [
       0,
@@ -131,7 +353,32 @@ export class WpXmlRpcClient extends AbstractWordPressClient {
     })) ?? [];
   }
 
-  async getPostTypes(certificate: WordPressAuthParams): Promise<PostType[]> {
+  async newCategory(name: string, parentId: string | undefined, certificate: WordPressAuthParams): Promise<Term> {
+    const response = await this.client.methodCall('wp.newTerm', [
+      0,
+      certificate.username,
+      certificate.password,
+      omitBy({
+        name,
+        taxonomy: 'category',
+        parent: parentId ? Number(parentId) : undefined
+      }, isUndefined)
+    ]);
+    if (isFaultResponse(response)) {
+      throw new Error(`${response.faultCode}: ${response.faultString}`);
+    }
+    return {
+      id: String(response),
+      name,
+      slug: name,
+      taxonomy: 'category',
+      description: name,
+      parent: parentId,
+      count: 0
+    };
+  }
+
+  async getPostTypes(certificate: WordPressAuthParams): Promise<PostTypeInfo[]> {
     const response = await this.client.methodCall('wp.getPostTypes', [
       0,
       certificate.username,
@@ -142,7 +389,80 @@ export class WpXmlRpcClient extends AbstractWordPressClient {
       showError(fault);
       throw new Error(fault);
     }
-    return Object.keys(response as SafeAny) ?? [];
+    return Object.entries(response as Record<string, SafeAny>)
+      .map(([ name, type ]) => {
+        const defaultInfo = getDefaultPostTypeInfo(name);
+        return {
+          name,
+          label: type.label ?? name,
+          // not used by XML-RPC
+          restBase: defaultInfo.restBase,
+          supports: type.supports ? Object.keys(pickBy(type.supports)) : defaultInfo.supports,
+          taxonomies: type.taxonomies ?? defaultInfo.taxonomies
+        };
+      });
+  }
+
+  async getTaxonomies(certificate: WordPressAuthParams): Promise<TaxonomyInfo[]> {
+    const response = await this.client.methodCall('wp.getTaxonomies', [
+      0,
+      certificate.username,
+      certificate.password,
+    ]);
+    if (isFaultResponse(response)) {
+      throw new Error(`${response.faultCode}: ${response.faultString}`);
+    }
+    return ((response as SafeAny[]) ?? []).map(it => ({
+      name: it.name,
+      label: it.label ?? it.name,
+      // not used by XML-RPC
+      restBase: it.name,
+      hierarchical: !!it.hierarchical
+    }));
+  }
+
+  async getTerm(taxonomy: TaxonomyInfo, name: string, certificate: WordPressAuthParams): Promise<Term> {
+    const termsResponse = await this.client.methodCall('wp.getTerms', [
+      0,
+      certificate.username,
+      certificate.password,
+      taxonomy.name,
+      {
+        search: name,
+        hide_empty: false
+      }
+    ]);
+    if (isFaultResponse(termsResponse)) {
+      throw new Error(`${termsResponse.faultCode}: ${termsResponse.faultString}`);
+    }
+    const exists = (termsResponse as SafeAny[])
+      .find(it => String(it.name).toLowerCase() === name.toLowerCase());
+    if (exists) {
+      return {
+        ...exists,
+        id: exists.term_id
+      };
+    }
+    const termId = await this.client.methodCall('wp.newTerm', [
+      0,
+      certificate.username,
+      certificate.password,
+      {
+        name,
+        taxonomy: taxonomy.name
+      }
+    ]);
+    if (isFaultResponse(termId)) {
+      throw new Error(`${termId.faultCode}: ${termId.faultString}`);
+    }
+    return {
+      id: String(termId),
+      name,
+      slug: name,
+      taxonomy: taxonomy.name,
+      description: name,
+      count: 0
+    };
   }
 
   async validateUser(certificate: WordPressAuthParams): Promise<WordPressClientResult<boolean>> {
@@ -180,6 +500,28 @@ export class WpXmlRpcClient extends AbstractWordPressClient {
     });
   }
 
+  async getServerTags(certificate: WordPressAuthParams): Promise<Term[]> {
+    const response = await this.client.methodCall('wp.getTerms', [
+      0,
+      certificate.username,
+      certificate.password,
+      'post_tag',
+      {
+        number: 100,
+        orderby: 'count',
+        order: 'DESC',
+        hide_empty: false
+      }
+    ]);
+    if (isFaultResponse(response)) {
+      throw new Error(`${response.faultCode}: ${response.faultString}`);
+    }
+    return (response as SafeAny[]).map(it => ({
+      ...it,
+      id: it.term_id
+    }));
+  }
+
   async uploadMedia(media: Media, certificate: WordPressAuthParams): Promise<WordPressClientResult<WordPressMediaUploadResult>> {
     const wpMedia = {
       name: media.fileName,
@@ -205,7 +547,8 @@ export class WpXmlRpcClient extends AbstractWordPressClient {
       return {
         code: WordPressClientReturnCode.OK,
         data: {
-          url: (response as SafeAny).url
+          url: (response as SafeAny).url,
+          id: String((response as SafeAny).attachment_id ?? (response as SafeAny).id)
         },
         response
       };